@@ -0,0 +1,630 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import request from 'supertest';
+import { createApp, AppContext } from './app';
+import { createMockLanguageModel } from './mockModel';
+import { SAVE_FORMAT_VERSION } from './saveFormat';
+import { createTestContext, loadInitialState, sampleResponse } from './testUtils';
+
+let cleanup: (() => Promise<void>) | null = null;
+
+async function setup(
+  responses: Array<string | object> = [],
+  saveOptions: { autosaveEvery?: number, autosaveSlots?: number } = {}
+): Promise<{ app: ReturnType<typeof createApp>, context: AppContext, sessionId: string }> {
+  const testContext = await createTestContext(responses, saveOptions);
+  cleanup = testContext.cleanup;
+  const session = await testContext.context.sessions.create('Test game');
+  return { app: createApp(testContext.context), context: testContext.context, sessionId: session.id };
+}
+
+afterEach(async () => {
+  await cleanup?.();
+  cleanup = null;
+});
+
+function memoryBody(content: string, createdAt: number) {
+  return { content, time: '22 September 2941, 8:00', location: 'The Shire, Hobbiton, Bag End', importance: 0.5, emotions: 'calm', createdAt };
+}
+
+describe('POST /api/process-game-action', () => {
+  it('returns the updated game state and stores the turn memory', async () => {
+    const { app, sessionId } = await setup([sampleResponse()]);
+    const gameState = await loadInitialState('en');
+
+    const res = await request(app)
+      .post('/api/process-game-action')
+      .send({ sessionId, gameState, action: 'I open the door', language: 'en' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.reaction).toBe('Bilbo opened the round green door.');
+    expect(res.body.gameState.time.time).toBe('8:10');
+    expect(res.body.gameState.bilboState.emotions).toEqual(['surprise']);
+    expect(res.body.gameState.history.slice(-2).map((entry: any) => entry.type)).toEqual(['bilbo', 'world']);
+
+    const memories = await request(app).get('/api/memories').query({ sessionId });
+    expect(memories.body.map((memory: any) => memory.content)).toEqual(['Gandalf the wizard knocked at my door this morning.']);
+  });
+
+  it('skips memories below the importance threshold', async () => {
+    const { app, sessionId } = await setup([sampleResponse({ importance: 0.05 })]);
+    const gameState = await loadInitialState('en');
+
+    await request(app).post('/api/process-game-action').send({ sessionId, gameState, action: 'I yawn', language: 'en' });
+
+    const memories = await request(app).get('/api/memories').query({ sessionId });
+    expect(memories.body).toEqual([]);
+  });
+
+  it('asks the model to correct an invalid response', async () => {
+    const { app, sessionId } = await setup([
+      JSON.stringify(sampleResponse({ importance: 5 })),
+      sampleResponse({ reaction: 'Bilbo bowed.' })
+    ]);
+    const gameState = await loadInitialState('en');
+
+    const res = await request(app).post('/api/process-game-action').send({ sessionId, gameState, action: 'I bow', language: 'en' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.reaction).toBe('Bilbo bowed.');
+  });
+
+  it('reports a typed error when corrections keep failing', async () => {
+    const { app, sessionId } = await setup(['no json here', 'still none', '{"reaction": ""}']);
+    const gameState = await loadInitialState('en');
+
+    const res = await request(app).post('/api/process-game-action').send({ sessionId, gameState, action: 'I bow', language: 'en' });
+
+    expect(res.status).toBe(502);
+    expect(res.body.code).toBe('INVALID_RESPONSE');
+    expect(res.body.issues.length).toBeGreaterThan(0);
+  });
+
+  it('updates the inventory with the items gained, lost and used', async () => {
+    const { app, sessionId } = await setup([sampleResponse({
+      itemsGained: [{ item: 'Sting', condition: 'sharp elven blade' }],
+      itemsLost: [{ item: 'pouch of pipe-weed', quantity: 1 }],
+      itemsUsed: [{ item: 'Pipe', condition: 'still warm' }]
+    })]);
+    const gameState = await loadInitialState('en');
+
+    const res = await request(app).post('/api/process-game-action').send({ sessionId, gameState, action: 'I smoke and take the sword', language: 'en' });
+
+    expect(res.body.gameState.bilboState.inventory).toEqual([
+      { item: 'pipe', quantity: 1, condition: 'still warm', acquired: 'Bag End' },
+      { item: 'Sting', quantity: 1, condition: 'sharp elven blade', acquired: 'Bag End, 22 September 2941' }
+    ]);
+  });
+
+  it('remembers the characters Bilbo meets', async () => {
+    const { app, sessionId } = await setup([sampleResponse({
+      characters: [{ name: 'Gandalf', race: 'wizard', disposition: 'amused', newFacts: ['wants a burglar'] }]
+    })]);
+    const gameState = await loadInitialState('en');
+
+    const res = await request(app).post('/api/process-game-action').send({ sessionId, gameState, action: 'I open the door', language: 'en' });
+
+    expect(res.body.gameState.characters).toEqual([{
+      name: 'Gandalf',
+      race: 'wizard',
+      present: true,
+      disposition: 'amused',
+      lastSeen: { location: gameState.location, time: sampleResponse().newTime },
+      facts: ['wants a burglar']
+    }]);
+  });
+
+  it('follows the turn through the beats of the book', async () => {
+    const { app, sessionId } = await setup([sampleResponse({ worldResponse: 'Thirteen dwarves crowded into the hall.' })]);
+    const gameState = await loadInitialState('en');
+
+    const res = await request(app).post('/api/process-game-action').send({ sessionId, gameState, action: 'I open the door', language: 'en' });
+
+    expect(res.body.gameState.plot).toEqual([{ beat: 'unexpected-party', status: 'reached', time: sampleResponse().newTime }]);
+  });
+
+  it('asks the model to correct an impossible journey and writes known places the game\'s way', async () => {
+    const { app, sessionId } = await setup([
+      sampleResponse({ newLocation: { region: 'Eriador', settlement: 'Rivendell', place: 'Last Homely House' } }),
+      sampleResponse({
+        newLocation: { region: 'Shire', settlement: 'bywater', place: 'green dragon' },
+        newTime: { ...sampleResponse().newTime, time: '9:00' }
+      })
+    ]);
+    const gameState = await loadInitialState('en');
+
+    const res = await request(app).post('/api/process-game-action').send({ sessionId, gameState, action: 'I run to Rivendell', language: 'en' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.gameState.location).toEqual({ region: 'The Shire', settlement: 'Bywater', place: 'The Green Dragon' });
+  });
+
+  it('asks the model to correct time going back and writes the date the game\'s way', async () => {
+    const { app, sessionId } = await setup([
+      sampleResponse({ newTime: { day: 21, month: 'September', year: 2941, era: 'Third Age', time: '8:00' } }),
+      sampleResponse({ newTime: { day: 22, month: 'Halimath', year: 2941, era: 'Third Age', time: '09:30' } })
+    ]);
+    const gameState = await loadInitialState('en');
+
+    const res = await request(app).post('/api/process-game-action').send({ sessionId, gameState, action: 'I wait', language: 'en' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.gameState.time).toEqual({ day: 22, month: 'September', year: 2941, era: 'Third Age', time: '9:30' });
+    expect(res.body.elapsedHours).toBe(1.5);
+  });
+
+  it('asks the model to correct a response using items Bilbo does not carry', async () => {
+    const { app, sessionId } = await setup([
+      sampleResponse({ itemsUsed: [{ item: 'the One Ring' }] }),
+      sampleResponse({ reaction: 'Bilbo hid behind the door.' })
+    ]);
+    const gameState = await loadInitialState('en');
+
+    const res = await request(app).post('/api/process-game-action').send({ sessionId, gameState, action: 'I put on the ring', language: 'en' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.reaction).toBe('Bilbo hid behind the door.');
+    expect(res.body.gameState.bilboState.inventory).toEqual(gameState.bilboState.inventory);
+  });
+});
+
+describe('POST /api/process-game-action/stream', () => {
+  it('streams partial narrative before the final game state', async () => {
+    const { app, sessionId } = await setup([sampleResponse()]);
+    const gameState = await loadInitialState('en');
+
+    const res = await request(app)
+      .post('/api/process-game-action/stream')
+      .send({ sessionId, gameState, action: 'I open the door', language: 'en' });
+
+    const events = res.text.split('\n\n').filter(Boolean).map(frame => JSON.parse(frame.replace(/^data: /, '')));
+    const partials = events.filter(event => event.type === 'partial');
+    const done = events[events.length - 1];
+
+    expect(res.headers['content-type']).toContain('text/event-stream');
+    expect(partials.length).toBeGreaterThan(1);
+    expect(partials[0].reaction.length).toBeLessThan(done.reaction.length);
+    expect(done.type).toBe('done');
+    expect(done.gameState.time.time).toBe('8:10');
+  });
+});
+
+describe('GET /api/embedding/status', () => {
+  it('reports the embedding model', async () => {
+    const { app } = await setup();
+
+    const res = await request(app).get('/api/embedding/status').expect(200);
+
+    expect(res.body).toMatchObject({ model: 'hash-64', state: 'ready' });
+  });
+});
+
+describe('memory routes', () => {
+  it('returns an empty list before anything is saved', async () => {
+    const { app, sessionId } = await setup();
+
+    const res = await request(app).get('/api/memories').query({ sessionId });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual([]);
+  });
+
+  it('saves memories and lists them newest first', async () => {
+    const { app, sessionId } = await setup();
+
+    await request(app).post('/api/save-memory').send({ sessionId, ...memoryBody('I found a ring in the dark', 1) }).expect(200);
+    await request(app).post('/api/save-memory').send({ sessionId, ...memoryBody('Bombur fell into the river', 2) }).expect(200);
+
+    const res = await request(app).get('/api/memories').query({ sessionId });
+
+    expect(res.body.map((memory: any) => memory.content)).toEqual(['Bombur fell into the river', 'I found a ring in the dark']);
+    expect(res.body[0].embeddings).toHaveLength(64);
+  });
+
+  it('searches memories by similarity', async () => {
+    const { app, sessionId } = await setup();
+
+    await request(app).post('/api/save-memory').send({ sessionId, ...memoryBody('I found a ring in the dark', 1) });
+    await request(app).post('/api/save-memory').send({ sessionId, ...memoryBody('Bombur fell into the river', 2) });
+
+    const res = await request(app).get('/api/memories').query({ sessionId, query: 'ring in the dark', threshold: 0.5 });
+
+    expect(res.body.map((memory: any) => memory.content)).toEqual(['I found a ring in the dark']);
+    expect(Number(res.body[0].similarity)).toBeGreaterThan(0.5);
+  });
+
+  it('rejects an unknown search mode', async () => {
+    const { app, sessionId } = await setup();
+    await request(app).post('/api/save-memory').send({ sessionId, ...memoryBody('I found a ring in the dark', 1) });
+
+    await request(app).get('/api/memories').query({ sessionId, query: 'ring', mode: 'fuzzy' }).expect(400);
+  });
+
+  it('imports memories in bulk', async () => {
+    const { app, sessionId } = await setup();
+    await request(app).post('/api/save-memory').send({ sessionId, ...memoryBody('I found a ring in the dark', 1) });
+
+    const res = await request(app).post('/api/import-memories').send({
+      sessionId,
+      memories: [memoryBody('Bombur fell into the river', 2), memoryBody('We reached Beorn\'s house', 3)]
+    }).expect(200);
+
+    expect(res.body.imported).toBe(2);
+    const memories = await request(app).get('/api/memories').query({ sessionId });
+    expect(memories.body.map((memory: any) => memory.content)).toEqual(['We reached Beorn\'s house', 'Bombur fell into the river', 'I found a ring in the dark']);
+  });
+
+  it('rejects a bulk import with invalid memories before writing anything', async () => {
+    const { app, sessionId } = await setup();
+
+    await request(app).post('/api/import-memories').send({ sessionId, memories: [memoryBody('Bombur fell into the river', 2), { importance: 1 }] }).expect(400);
+
+    const memories = await request(app).get('/api/memories').query({ sessionId });
+    expect(memories.body).toEqual([]);
+  });
+
+  it('lists only episodes and lets the memories behind them be checked', async () => {
+    const { app, sessionId } = await setup();
+    await request(app).post('/api/import-memories').send({
+      sessionId,
+      memories: [
+        { ...memoryBody('Bombur fell into the river', 1), id: 'a', episodeId: 'e' },
+        { ...memoryBody('We carried Bombur for hours', 2), id: 'b', episodeId: 'e' },
+        { ...memoryBody('Bombur fell into the enchanted river and we carried him', 2), id: 'e', sources: 'a,b' }
+      ]
+    }).expect(200);
+
+    const memories = await request(app).get('/api/memories').query({ sessionId });
+    const sources = await request(app).get('/api/memories/e/sources').query({ sessionId }).expect(200);
+
+    expect(memories.body.map((memory: any) => memory.id)).toEqual(['e']);
+    expect(sources.body.map((memory: any) => memory.content)).toEqual(['Bombur fell into the river', 'We carried Bombur for hours']);
+    await request(app).get('/api/memories/a/sources').query({ sessionId }).expect(404);
+  });
+
+  it('corrects, pins and deletes single memories', async () => {
+    const { app, sessionId } = await setup();
+    await request(app).post('/api/save-memory').send({ sessionId, ...memoryBody('I bought a crossbow in Bree', 1), id: 'a' });
+    await request(app).post('/api/save-memory').send({ sessionId, ...memoryBody('Bombur fell into the river', 2), id: 'b' });
+
+    const edited = await request(app).patch('/api/memories/a')
+      .send({ sessionId, content: 'I bought a walking stick in Bree', importance: 0.8, pinned: true })
+      .expect(200);
+    expect(edited.body).toMatchObject({ id: 'a', content: 'I bought a walking stick in Bree', importance: 0.8, emotions: 'calm', pinned: true });
+
+    await request(app).patch('/api/memories/a').send({ sessionId, importance: 2 }).expect(400);
+    await request(app).patch('/api/memories/a').send({ sessionId, pinned: 'yes' }).expect(400);
+    await request(app).patch('/api/memories/missing').send({ sessionId, pinned: true }).expect(404);
+
+    await request(app).delete('/api/memories/b').query({ sessionId }).expect(200);
+    await request(app).delete('/api/memories/b').query({ sessionId }).expect(404);
+
+    const res = await request(app).get('/api/memories').query({ sessionId });
+    expect(res.body.map((memory: any) => [memory.content, memory.pinned])).toEqual([['I bought a walking stick in Bree', true]]);
+  });
+
+  it('re-indexes the memories of a session', async () => {
+    const { app, sessionId } = await setup();
+    await request(app).post('/api/save-memory').send({ sessionId, ...memoryBody('I found a ring in the dark', 1) });
+
+    const res = await request(app).post('/api/reindex-memories').send({ sessionId }).expect(200);
+
+    expect(res.body).toEqual({ success: true, reindexed: 1, embedding: { model: 'hash-64', dimension: 64 } });
+  });
+
+  it('clears all memories', async () => {
+    const { app, sessionId } = await setup();
+
+    await request(app).post('/api/save-memory').send({ sessionId, ...memoryBody('I found a ring in the dark', 1) });
+    await request(app).post('/api/clear-memories').send({ sessionId }).expect(200);
+
+    const res = await request(app).get('/api/memories').query({ sessionId });
+    expect(res.body).toEqual([]);
+  });
+});
+
+describe('session routes', () => {
+  it('keeps memories of different sessions apart', async () => {
+    const { app, sessionId } = await setup();
+    const other = await request(app).post('/api/sessions').send({ name: 'Second game' }).expect(201);
+
+    await request(app).post('/api/save-memory').send({ sessionId, ...memoryBody('I found a ring in the dark', 1) });
+    await request(app).post('/api/save-memory').send({ sessionId: other.body.id, ...memoryBody('Bombur fell into the river', 2) });
+
+    const first = await request(app).get('/api/memories').query({ sessionId });
+    const second = await request(app).get('/api/memories').query({ sessionId: other.body.id });
+    expect(first.body.map((memory: any) => memory.content)).toEqual(['I found a ring in the dark']);
+    expect(second.body.map((memory: any) => memory.content)).toEqual(['Bombur fell into the river']);
+  });
+
+  it('lists and deletes sessions', async () => {
+    const { app, sessionId } = await setup();
+    await request(app).post('/api/save-memory').send({ sessionId, ...memoryBody('I found a ring in the dark', 1) });
+
+    const listed = await request(app).get('/api/sessions');
+    expect(listed.body).toEqual([expect.objectContaining({ id: sessionId, name: 'Test game', memoryCount: 1 })]);
+
+    await request(app).delete(`/api/sessions/${sessionId}`).expect(200);
+
+    expect((await request(app).get('/api/sessions')).body).toEqual([]);
+    await request(app).get('/api/memories').query({ sessionId }).expect(404);
+  });
+
+  it('rejects calls without a known session', async () => {
+    const { app } = await setup();
+
+    await request(app).get('/api/memories').expect(400);
+    await request(app).get('/api/memories').query({ sessionId: 'missing' }).expect(404);
+    await request(app).delete('/api/sessions/missing').expect(404);
+  });
+});
+
+describe('POST /api/rewind', () => {
+  async function playTurns(app: ReturnType<typeof createApp>, sessionId: string, memories: string[]) {
+    const states = [await loadInitialState('en')];
+    for (const memory of memories) {
+      const res = await request(app).post('/api/process-game-action').send({ sessionId, gameState: states[states.length - 1], action: 'I walk on', language: 'en' });
+      states.push(res.body.gameState);
+    }
+    return states;
+  }
+
+  it('undoes the last turn and its memory', async () => {
+    const { app, sessionId } = await setup([sampleResponse({ memory: 'I met Gandalf' }), sampleResponse({ memory: 'I ended up in Mordor' })]);
+    const states = await playTurns(app, sessionId, ['I met Gandalf', 'I ended up in Mordor']);
+
+    const res = await request(app).post('/api/rewind').send({ sessionId }).expect(200);
+
+    expect(res.body.gameState).toEqual(states[1]);
+    expect(res.body.removedMemories).toBe(1);
+    const memories = await request(app).get('/api/memories').query({ sessionId });
+    expect(memories.body.map((memory: any) => memory.content)).toEqual(['I met Gandalf']);
+  });
+
+  it('rewinds to the turn that produced a history entry', async () => {
+    const { app, sessionId } = await setup([
+      sampleResponse({ memory: 'I met Gandalf' }),
+      sampleResponse({ memory: 'Dwarves arrived' }),
+      sampleResponse({ memory: 'We left the Shire' })
+    ]);
+    const states = await playTurns(app, sessionId, ['I met Gandalf', 'Dwarves arrived', 'We left the Shire']);
+
+    // Entry 1 is the world response of the first turn
+    const res = await request(app).post('/api/rewind').send({ sessionId, entryIndex: 1 }).expect(200);
+
+    expect(res.body.gameState).toEqual(states[1]);
+    expect(res.body.removedMemories).toBe(2);
+
+    const undone = await request(app).post('/api/rewind').send({ sessionId }).expect(200);
+    expect(undone.body.gameState).toEqual(states[0]);
+    await request(app).post('/api/rewind').send({ sessionId }).expect(404);
+  });
+
+  it('undoes the last turn that succeeded after a failed one', async () => {
+    const { app, sessionId } = await setup([sampleResponse(), 'no json here', 'still none', '{"reaction": ""}']);
+    const states = await playTurns(app, sessionId, ['Gandalf knocked']);
+
+    await request(app).post('/api/process-game-action').send({ sessionId, gameState: states[1], action: 'I bow', language: 'en' }).expect(502);
+
+    const res = await request(app).post('/api/rewind').send({ sessionId }).expect(200);
+    expect(res.body.gameState).toEqual(states[0]);
+  });
+
+  it('keeps snapshots small by numbering them and leaving the history to the timeline', async () => {
+    const { app, context, sessionId } = await setup([sampleResponse(), sampleResponse(), sampleResponse()]);
+    const states = await playTurns(app, sessionId, ['Gandalf knocked', 'Dwarves arrived', 'We left the Shire']);
+
+    const snapshots = await context.turns.snapshots(sessionId);
+    expect(snapshots.map(snapshot => snapshot.sequence)).toEqual([0, 1, 2]);
+    expect(snapshots.map(snapshot => snapshot.historyLength)).toEqual(states.slice(0, 3).map(state => state.history.length));
+    expect(snapshots.every(snapshot => !('history' in snapshot.gameState))).toBe(true);
+
+    const res = await request(app).post('/api/rewind').send({ sessionId, entryIndex: 1 }).expect(200);
+    expect(res.body.gameState).toEqual(states[1]);
+  });
+
+  it('forgets snapshots when the game is restarted', async () => {
+    const { app, sessionId } = await setup([sampleResponse()]);
+    await playTurns(app, sessionId, ['Gandalf knocked']);
+
+    await request(app).post('/api/clear-memories').send({ sessionId });
+
+    await request(app).post('/api/rewind').send({ sessionId }).expect(404);
+  });
+});
+
+describe('memory consolidation', () => {
+  it('merges memories with its own model after a turn, before a rewind of the same session runs', async () => {
+    const { app, context, sessionId } = await setup([sampleResponse(), sampleResponse({ reaction: 'Bilbo bowed.' })]);
+    context.consolidationModel = createMockLanguageModel({
+      version: 1,
+      entries: Array.from({ length: 10 }, () => ({ content: [{ type: 'text' as const, text: 'Quiet days at Bag End' }] }))
+    }, 'script');
+    const memories = Array.from({ length: 45 }, (_, index) => memoryBody(`Day ${index} at home`, index + 1));
+    await request(app).post('/api/import-memories').send({ sessionId, memories }).expect(200);
+    const gameState = await loadInitialState('en');
+
+    await request(app).post('/api/process-game-action').send({ sessionId, gameState, action: 'I rest', language: 'en' }).expect(200);
+    const rewound = await request(app).post('/api/rewind').send({ sessionId }).expect(200);
+
+    expect(rewound.body.removedMemories).toBe(1);
+    const listed = await request(app).get('/api/memories').query({ sessionId });
+    expect(listed.body.map((memory: any) => memory.content)).toContain('Quiet days at Bag End');
+
+    // The summaries came from their own model, so the next scripted turn still gets its answer
+    const next = await request(app).post('/api/process-game-action').send({ sessionId, gameState, action: 'I bow', language: 'en' }).expect(200);
+    expect(next.body.reaction).toBe('Bilbo bowed.');
+  });
+});
+
+describe('POST /api/journey', () => {
+  it('returns the map and the stops of the route in the requested language', async () => {
+    const { app } = await setup();
+    const gameState = await loadInitialState('es');
+    const history = [{ content: 'Bilbo desayunó.', type: 'bilbo', location: gameState.location, time: gameState.time }];
+
+    const res = await request(app).post('/api/journey').send({ history, language: 'es' }).expect(200);
+
+    expect(res.body.map.settlements).toContainEqual({ id: 'rivendell', name: 'Rivendel', region: 'Eriador', x: 470, y: 198 });
+    expect(res.body.stops).toEqual([expect.objectContaining({ settlement: 'hobbiton', name: 'Hobbiton', firstEntry: 0, days: 0 })]);
+  });
+
+  it('rejects a missing history', async () => {
+    const { app } = await setup();
+    await request(app).post('/api/journey').send({ language: 'en' }).expect(400);
+  });
+});
+
+describe('POST /api/plot', () => {
+  it('describes the beats of the book in the requested language', async () => {
+    const { app } = await setup();
+    const time = (await loadInitialState('es')).time;
+
+    const res = await request(app).post('/api/plot').send({ plot: [{ beat: 'unexpected-party', status: 'reached', time }], language: 'es' }).expect(200);
+
+    expect(res.body.current).toBe('unexpected-party');
+    expect(res.body.divergence).toBe(0);
+    expect(res.body.beats[0]).toEqual({ id: 'unexpected-party', chapter: 1, title: 'Una fiesta inesperada', status: 'reached', time });
+  });
+
+  it('rejects a missing plot', async () => {
+    const { app } = await setup();
+    await request(app).post('/api/plot').send({ language: 'en' }).expect(400);
+  });
+});
+
+describe('timeline routes', () => {
+  it('forks at an earlier entry with only the memories from before it', async () => {
+    const { app, sessionId } = await setup([sampleResponse({ memory: 'Gandalf knocked at my door' }), sampleResponse({ memory: 'I refused the dwarves' })]);
+    let gameState = await loadInitialState('en');
+    const states = [gameState];
+    for (const action of ['I open the door', 'I send the dwarves away']) {
+      gameState = (await request(app).post('/api/process-game-action').send({ sessionId, gameState, action, language: 'en' })).body.gameState;
+      states.push(gameState);
+    }
+
+    const res = await request(app).post(`/api/sessions/${sessionId}/fork`).send({ name: 'What if', entryIndex: 1 }).expect(201);
+
+    expect(res.body.gameState).toEqual(states[1]);
+    expect(res.body.session).toEqual(expect.objectContaining({
+      name: 'What if',
+      parentId: sessionId,
+      fork: expect.objectContaining({ entryIndex: 1, turn: 1, parentIntention: 'I send the dwarves away', location: states[1].location })
+    }));
+
+    const branchMemories = await request(app).get('/api/memories').query({ sessionId: res.body.session.id });
+    expect(branchMemories.body.map((memory: any) => memory.content)).toEqual(['Gandalf knocked at my door']);
+    const parentMemories = await request(app).get('/api/memories').query({ sessionId });
+    expect(parentMemories.body).toHaveLength(2);
+  });
+
+  it('keeps each branch\'s latest state for switching', async () => {
+    const { app, sessionId } = await setup([sampleResponse({ reaction: 'Bilbo welcomed the dwarves.' })]);
+    const gameState = await loadInitialState('en');
+
+    const fork = await request(app).post(`/api/sessions/${sessionId}/fork`).send({ gameState }).expect(201);
+    const branchId = fork.body.session.id;
+    const played = await request(app).post('/api/process-game-action').send({ sessionId: branchId, gameState, action: 'I let them in', language: 'en' });
+
+    expect((await request(app).get(`/api/sessions/${branchId}/state`)).body.gameState).toEqual(played.body.gameState);
+    expect((await request(app).get(`/api/sessions/${sessionId}/state`)).body.gameState).toEqual(gameState);
+
+    const timelines = await request(app).get('/api/timelines');
+    expect(timelines.body).toEqual(expect.arrayContaining([
+      expect.objectContaining({ id: sessionId, branchIntention: null }),
+      expect.objectContaining({ id: branchId, parentId: sessionId, branchIntention: 'I let them in' })
+    ]));
+  });
+
+  it('refuses to fork a session without a known state', async () => {
+    const { app, sessionId } = await setup();
+
+    await request(app).post(`/api/sessions/${sessionId}/fork`).send({}).expect(404);
+    await request(app).get(`/api/sessions/${sessionId}/state`).expect(404);
+  });
+});
+
+describe('save routes', () => {
+  it('saves, lists and loads a slot with its memories', async () => {
+    const { app, sessionId } = await setup();
+    const gameState = await loadInitialState('en');
+    await request(app).post('/api/save-memory').send({ sessionId, ...memoryBody('I found a ring in the dark', 1) });
+
+    const created = await request(app).post('/api/saves').send({ sessionId, name: 'Before the trolls', gameState }).expect(201);
+    expect(created.body).toEqual(expect.objectContaining({ name: 'Before the trolls', kind: 'manual', turnCount: 0, memoryCount: 1 }));
+    expect(created.body.location).toEqual(gameState.location);
+
+    const listed = await request(app).get('/api/saves');
+    expect(listed.body.map((save: any) => save.id)).toEqual([created.body.id]);
+    expect(listed.body[0].memories).toBeUndefined();
+
+    await request(app).post('/api/clear-memories').send({ sessionId });
+    const loaded = await request(app).post(`/api/saves/${created.body.id}/load`).send({ sessionId }).expect(200);
+    expect(loaded.body.gameState).toEqual(gameState);
+
+    const memories = await request(app).get('/api/memories').query({ sessionId });
+    expect(memories.body.map((memory: any) => memory.content)).toEqual(['I found a ring in the dark']);
+    expect(memories.body[0].embeddings).toHaveLength(64);
+  });
+
+  it('overwrites and deletes a slot', async () => {
+    const { app, sessionId } = await setup();
+    const gameState = await loadInitialState('en');
+    const created = await request(app).post('/api/saves').send({ sessionId, name: 'Bag End', gameState }).expect(201);
+
+    const moved = { ...gameState, location: { region: 'Wilderland', settlement: '', place: 'Trollshaws' } };
+    const overwritten = await request(app).put(`/api/saves/${created.body.id}`).send({ sessionId, gameState: moved }).expect(200);
+    expect(overwritten.body).toEqual(expect.objectContaining({ id: created.body.id, name: 'Bag End', location: moved.location }));
+
+    await request(app).delete(`/api/saves/${created.body.id}`).expect(200);
+    expect((await request(app).get('/api/saves')).body).toEqual([]);
+    await request(app).post(`/api/saves/${created.body.id}/load`).send({ sessionId }).expect(404);
+  });
+
+  it('imports an old browser save file', async () => {
+    const { app, sessionId } = await setup();
+    const gameState: any = await loadInitialState('en');
+    delete gameState.bilboState.plans;
+    const save = { gameState, memories: [{ content: 'I found a ring in the dark', importance: 0.9, time: '', location: '', emotions: '', id: '1' }], version: '1.0' };
+
+    const res = await request(app).post('/api/saves/import').send({ sessionId, save }).expect(200);
+
+    expect(res.body.gameState.bilboState.plans).toEqual([]);
+    expect(res.body.report.fixed.length).toBeGreaterThan(0);
+    const memories = await request(app).get('/api/memories').query({ sessionId });
+    expect(memories.body.map((memory: any) => memory.content)).toEqual(['I found a ring in the dark']);
+  });
+
+  it('refuses saves from a newer version with a clear message', async () => {
+    const { app, sessionId } = await setup();
+    const gameState = await loadInitialState('en');
+
+    const res = await request(app).post('/api/saves/import').send({ sessionId, save: { version: 99, gameState, memories: [] } }).expect(422);
+
+    expect(res.body.code).toBe('NEWER_VERSION');
+    expect(res.body.message).toContain('newer version of the game');
+  });
+
+  it('exports a slot as a downloadable file', async () => {
+    const { app, sessionId } = await setup();
+    const gameState = await loadInitialState('en');
+    const created = await request(app).post('/api/saves').send({ sessionId, name: 'Bag End', gameState });
+
+    const res = await request(app).get(`/api/saves/${created.body.id}/export`).expect(200);
+
+    expect(res.headers['content-disposition']).toContain('attachment');
+    expect(res.body).toEqual(expect.objectContaining({ version: SAVE_FORMAT_VERSION, name: 'Bag End', gameState }));
+  });
+
+  it('autosaves after every configured number of turns', async () => {
+    const { app, sessionId } = await setup([sampleResponse(), sampleResponse()], { autosaveEvery: 2 });
+    let gameState = await loadInitialState('en');
+
+    for (const action of ['I open the door', 'I bow']) {
+      const res = await request(app).post('/api/process-game-action').send({ sessionId, gameState, action, language: 'en' });
+      gameState = res.body.gameState;
+    }
+
+    const saves = (await request(app).get('/api/saves')).body;
+    expect(saves).toEqual([expect.objectContaining({ kind: 'autosave', sessionId, turnCount: 2, memoryCount: 2 })]);
+  });
+});
@@ -0,0 +1,708 @@
+import express from 'express';
+import cors from 'cors';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { LanguageModel } from 'ai';
+import { broadcastLog, subscribeToLogs } from './logs';
+import { processGameAction, GameContext } from './game';
+import { loadGeography } from './geography';
+import { buildJourney } from './journey';
+import { describePlot, loadPlot } from './plot';
+import { GameResponseError } from './responseSchema';
+import { consolidateMemories } from './consolidation';
+import { embedderStatus, Embedder } from './embedding';
+import { releaseOrphans, toPlainRecord, MemoryChanges, MemoryStore, SearchMode, SEARCH_MODES } from './memory';
+import type { SaveStore } from './saves';
+import { SaveFormatError } from './saveFormat';
+import type { SessionManager } from './sessions';
+import type { TurnHistory } from './turns';
+import type { ApiResponse, GameConfig } from './types';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Memory is resolved per request from the client's session
+export interface AppContext extends Omit<GameContext, 'memory'> {
+  config: GameConfig;
+  // Summarizes memories between turns; null leaves them unmerged (a scripted mock has no answers to spare)
+  consolidationModel: LanguageModel | null;
+  embed: Embedder;
+  sessions: SessionManager;
+  saves: SaveStore;
+  turns: TurnHistory;
+}
+
+// ========================
+// API ROUTES
+// ========================
+
+// Keep only the fields a memory row has; ids and timestamps are filled in when missing
+function cleanMemory(rawMemoryData: any, index: number = 0) {
+  return {
+    id: rawMemoryData.id || `${Date.now()}-${index}`,
+    content: rawMemoryData.content,
+    time: rawMemoryData.time,
+    location: rawMemoryData.location,
+    importance: rawMemoryData.importance,
+    emotions: rawMemoryData.emotions,
+    createdAt: rawMemoryData.createdAt || Date.now(),
+    embeddings: rawMemoryData.embeddings,
+    episodeId: rawMemoryData.episodeId,
+    sources: rawMemoryData.sources,
+    reinforcedAt: rawMemoryData.reinforcedAt,
+    pinned: rawMemoryData.pinned
+  };
+}
+
+export function createApp(context: AppContext): express.Express {
+  const app = express();
+
+  app.use(cors());
+  app.use(express.json({ limit: '50mb' })); // bulk imports carry embeddings
+  app.use(express.urlencoded({ extended: true, limit: '10mb' }));
+  app.use(express.static(path.join(__dirname, '../dist')));
+
+  // Resolve the memory store of the session named by `sessionId` in the body or query string
+  const requireSession = async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    const sessionId = req.body?.sessionId ?? req.query.sessionId;
+    if (typeof sessionId !== 'string' || !sessionId) {
+      return res.status(400).json({ error: 'Missing sessionId' });
+    }
+
+    try {
+      const memory = await context.sessions.get(sessionId);
+      if (!memory) {
+        return res.status(404).json({ error: `Unknown session: ${sessionId}` });
+      }
+      res.locals.sessionId = sessionId;
+      res.locals.memory = memory;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  const gameContext = (res: express.Response): GameContext => ({ ...context, memory: res.locals.memory as MemoryStore });
+
+  // Work that changes a session's timeline and memories runs one task at a time per session:
+  // turns, rewinds, loads and the consolidation pass queued after a turn
+  const sessionQueues = new Map<string, Promise<unknown>>();
+
+  const inSessionQueue = <T>(sessionId: string, task: () => Promise<T>): Promise<T> => {
+    const run = (sessionQueues.get(sessionId) || Promise.resolve()).then(task);
+    const settled = run.catch(() => undefined);
+    sessionQueues.set(sessionId, settled);
+    settled.then(() => {
+      if (sessionQueues.get(sessionId) === settled) sessionQueues.delete(sessionId);
+    });
+    return run;
+  };
+
+  // Sessions with a consolidation pass queued or running; one pass at a time is enough
+  const consolidating = new Set<string>();
+
+  // Keep the session's latest state for branch switching; a failed autosave never fails the turn
+  const afterTurn = async (res: express.Response, response: ApiResponse) => {
+    const sessionId: string = res.locals.sessionId;
+    await context.turns.setCurrent(sessionId, response.gameState);
+    try {
+      await context.saves.autosave(sessionId, response.gameState, res.locals.memory);
+    } catch (error: any) {
+      broadcastLog(`❌ Autosave failed: ${error.message}`);
+    }
+
+    // Queued behind this turn, so it never runs alongside a turn, a rewind or a load of the same session
+    const { consolidationModel } = context;
+    if (consolidationModel && !consolidating.has(sessionId)) {
+      consolidating.add(sessionId);
+      const memory: MemoryStore = res.locals.memory;
+      inSessionQueue(sessionId, () => consolidateMemories({ languageModel: consolidationModel, memory, now: response.gameState.time }))
+        .catch((error: any) => broadcastLog(`❌ Memory consolidation failed: ${error.message}`))
+        .finally(() => consolidating.delete(sessionId));
+    }
+  };
+
+  // A failed turn leaves no snapshot behind, or the next undo would only go back to the current state
+  const discardTurn = async (res: express.Response, sequence: number | null) => {
+    if (sequence === null) return;
+    try {
+      await context.turns.discard(res.locals.sessionId, sequence);
+    } catch (error: any) {
+      broadcastLog(`❌ Error discarding the snapshot of a failed turn: ${error.message}`);
+    }
+  };
+
+  app.get('/api/config', (req: express.Request, res: express.Response) => {
+    const publicConfig = {
+      model: context.config.api.llm.model
+    };
+    res.json(publicConfig);
+  });
+
+  // Whether the embedding model is loaded, its dimension and how long loading took
+  app.get('/api/embedding/status', (req: express.Request, res: express.Response) => {
+    res.json(embedderStatus(context.embed));
+  });
+
+  app.post('/api/process-game-action', requireSession, async (req: express.Request, res: express.Response) => {
+    const { gameState, action, language = 'ru' } = req.body;
+    let sequence: number | null = null;
+    try {
+      const response = await inSessionQueue(res.locals.sessionId, async () => {
+        sequence = await context.turns.record(res.locals.sessionId, gameState, action);
+        const response = await processGameAction(gameContext(res), gameState, action, language);
+        await afterTurn(res, response);
+        return response;
+      });
+      res.json(response);
+    } catch (error: any) {
+      broadcastLog(`❌ API Error in process-game-action: ${error.message}`);
+      await discardTurn(res, sequence);
+      if (error instanceof GameResponseError) {
+        return res.status(502).json({
+          error: 'Invalid model response',
+          code: error.code,
+          issues: error.issues,
+          message: "The storyteller's answer could not be understood. Please try again.",
+          usage: { total: 0 }
+        });
+      }
+      res.status(500).json({
+        error: 'Failed to process game action',
+        message: "Error processing action. Please try again.",
+        usage: { total: 0 }
+      });
+    }
+  });
+
+  // Streaming variant: Server-Sent Events over the POST response
+  app.post('/api/process-game-action/stream', requireSession, async (req: express.Request, res: express.Response) => {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    });
+
+    const sendEvent = (event: any) => {
+      res.write(`data: ${JSON.stringify(event)}\n\n`);
+    };
+
+    const { gameState, action, language = 'ru' } = req.body;
+    let sequence: number | null = null;
+    try {
+      const response = await inSessionQueue(res.locals.sessionId, async () => {
+        sequence = await context.turns.record(res.locals.sessionId, gameState, action);
+        const response = await processGameAction(gameContext(res), gameState, action, language, sendEvent);
+        await afterTurn(res, response);
+        return response;
+      });
+      sendEvent({ type: 'done', ...response });
+    } catch (error: any) {
+      broadcastLog(`❌ API Error in process-game-action/stream: ${error.message}`);
+      await discardTurn(res, sequence);
+      if (error instanceof GameResponseError) {
+        sendEvent({
+          type: 'error',
+          error: 'Invalid model response',
+          code: error.code,
+          issues: error.issues,
+          message: "The storyteller's answer could not be understood. Please try again."
+        });
+      } else {
+        sendEvent({
+          type: 'error',
+          error: 'Failed to process game action',
+          message: "Error processing action. Please try again."
+        });
+      }
+    }
+
+    res.end();
+  });
+
+  // Server-Sent Events endpoint for log streaming
+  app.get('/api/logs/stream', (req: express.Request, res: express.Response) => {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Headers': 'Cache-Control'
+    });
+
+    // Send buffer history and subscribe
+    const unsubscribe = subscribeToLogs(res);
+
+    // Clean up on disconnect
+    req.on('close', unsubscribe);
+  });
+
+  app.get('/api/memories', requireSession, async (req: express.Request, res: express.Response) => {
+    const memory: MemoryStore = res.locals.memory;
+    try {
+      if (!memory.hasTable()) {
+        broadcastLog('📋 No memory table, returning empty array');
+        return res.json([]);
+      }
+
+      const { query, threshold = 0, mode = 'hybrid' } = req.query;
+      if (!SEARCH_MODES.includes(mode as SearchMode)) {
+        return res.status(400).json({ error: `mode must be one of ${SEARCH_MODES.join(', ')}` });
+      }
+      // What Bilbo feels now, for the emotional match; repeat the parameter for several emotions
+      const emotions = ([] as any[]).concat(req.query.emotions ?? []).map(String);
+
+      if (query) {
+        // Search memories
+        const searchThreshold = parseFloat(threshold as string);
+        broadcastLog(`📋 Searching memories (${mode}): "${query}" (threshold: ${searchThreshold})`);
+
+        const memories = await memory.find(query as string, 100, searchThreshold, { emotions, mode: mode as SearchMode });
+        res.json(memories);
+      } else {
+        // Return all memories, sorted by createdAt descending
+        const memories = await memory.list();
+
+        broadcastLog(`📋 Found ${memories.length} memories`);
+
+        res.json(memories);
+      }
+    } catch (error: any) {
+      broadcastLog(`❌ Error fetching memories: ${error.message}`);
+      res.status(500).json({ error: 'Failed to fetch memories' });
+    }
+  });
+
+  // The memories an episode was merged from, oldest first, to check the summary against them
+  app.get('/api/memories/:id/sources', requireSession, async (req: express.Request, res: express.Response) => {
+    try {
+      const records = await (res.locals.memory as MemoryStore).list({ includeArchived: true });
+      const episode = records.find(record => record.id === req.params.id && record.sources);
+      if (!episode) {
+        return res.status(404).json({ error: `Unknown episode: ${req.params.id}` });
+      }
+
+      res.json(records.filter(record => record.episodeId === episode.id).reverse().map(toPlainRecord));
+    } catch (error: any) {
+      broadcastLog(`❌ Error fetching episode sources: ${error.message}`);
+      res.status(500).json({ error: 'Failed to fetch episode sources' });
+    }
+  });
+
+  // Correct a memory: any of content, importance, emotions and pinned
+  app.patch('/api/memories/:id', requireSession, async (req: express.Request, res: express.Response) => {
+    const { content, importance, emotions, pinned } = req.body;
+    const changes: MemoryChanges = {};
+
+    if (content !== undefined) {
+      if (typeof content !== 'string' || !content.trim()) {
+        return res.status(400).json({ error: 'content must be a non-empty string' });
+      }
+      changes.content = content.trim();
+    }
+    if (importance !== undefined) {
+      if (typeof importance !== 'number' || importance < 0 || importance > 1) {
+        return res.status(400).json({ error: 'importance must be a number from 0 to 1' });
+      }
+      changes.importance = importance;
+    }
+    if (emotions !== undefined) {
+      if (typeof emotions !== 'string') {
+        return res.status(400).json({ error: 'emotions must be a string' });
+      }
+      changes.emotions = emotions.trim();
+    }
+    if (pinned !== undefined) {
+      if (typeof pinned !== 'boolean') {
+        return res.status(400).json({ error: 'pinned must be true or false' });
+      }
+      changes.pinned = pinned;
+    }
+
+    try {
+      const record = await (res.locals.memory as MemoryStore).edit(req.params.id, changes);
+      if (!record) {
+        return res.status(404).json({ error: `Unknown memory: ${req.params.id}` });
+      }
+      res.json(toPlainRecord(record));
+    } catch (error: any) {
+      broadcastLog(`❌ Error editing memory: ${error.message}`);
+      res.status(500).json({ error: 'Failed to edit memory' });
+    }
+  });
+
+  app.delete('/api/memories/:id', requireSession, async (req: express.Request, res: express.Response) => {
+    try {
+      if (!await (res.locals.memory as MemoryStore).remove(req.params.id)) {
+        return res.status(404).json({ error: `Unknown memory: ${req.params.id}` });
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      broadcastLog(`❌ Error deleting memory: ${error.message}`);
+      res.status(500).json({ error: 'Failed to delete memory' });
+    }
+  });
+
+  // Re-embed every memory of the session with the current model; progress goes to the log stream
+  app.post('/api/reindex-memories', requireSession, async (req: express.Request, res: express.Response) => {
+    const memory: MemoryStore = res.locals.memory;
+    try {
+      const reindexed = await memory.reindex();
+      res.json({ success: true, reindexed, embedding: memory.embeddingStatus().recorded });
+    } catch (error: any) {
+      broadcastLog(`❌ Error re-indexing memories, nothing was written: ${error.message}`);
+      res.status(500).json({ error: 'Failed to re-index memories' });
+    }
+  });
+
+  app.post('/api/clear-memories', requireSession, async (req: express.Request, res: express.Response) => {
+    try {
+      await inSessionQueue(res.locals.sessionId, async () => {
+        await res.locals.memory.clear();
+        await context.turns.clear(res.locals.sessionId);
+      });
+      res.json({ success: true });
+    } catch (error: any) {
+      broadcastLog(`❌ Error clearing memories: ${error.message}`);
+      res.status(500).json({ error: 'Failed to clear memories' });
+    }
+  });
+
+  app.post('/api/save-memory', requireSession, async (req: express.Request, res: express.Response) => {
+    try {
+      const memoryData = cleanMemory(req.body);
+
+      // Embeddings are created if they don't exist (for loaded saves)
+      await res.locals.memory.add(memoryData);
+
+      res.json({ success: true });
+    } catch (error: any) {
+      broadcastLog(`❌ Error saving memory: ${error.message}`);
+      res.status(500).json({ error: 'Failed to save memory' });
+    }
+  });
+
+  // All memories in one request: embedded in batches and written all or nothing.
+  // `embedding` ({ model, dimension }) names the model that made the memories' vectors, if they carry any.
+  app.post('/api/import-memories', requireSession, async (req: express.Request, res: express.Response) => {
+    const { memories, replace = false, embedding = null } = req.body;
+    if (!Array.isArray(memories) || memories.some(memory => typeof memory?.content !== 'string' || !memory.content)) {
+      return res.status(400).json({ error: 'Expected a list of memories, each with content' });
+    }
+    if (embedding !== null && (typeof embedding?.model !== 'string' || !Number.isInteger(embedding?.dimension))) {
+      return res.status(400).json({ error: 'embedding must be { model, dimension }' });
+    }
+
+    try {
+      broadcastLog(`📥 Importing ${memories.length} memories${replace ? ' (replacing existing ones)' : ''}`);
+      const imported = await res.locals.memory.addMany(memories.map(cleanMemory), { replace, embedding });
+      res.json({ success: true, imported });
+    } catch (error: any) {
+      broadcastLog(`❌ Error importing memories, nothing was written: ${error.message}`);
+      res.status(500).json({ error: 'Failed to import memories' });
+    }
+  });
+
+  app.get('/api/sessions', async (req: express.Request, res: express.Response) => {
+    try {
+      res.json(await context.sessions.list());
+    } catch (error: any) {
+      broadcastLog(`❌ Error listing sessions: ${error.message}`);
+      res.status(500).json({ error: 'Failed to list sessions' });
+    }
+  });
+
+  app.post('/api/sessions', async (req: express.Request, res: express.Response) => {
+    try {
+      const session = await context.sessions.create(req.body?.name);
+      res.status(201).json(session);
+    } catch (error: any) {
+      broadcastLog(`❌ Error creating session: ${error.message}`);
+      res.status(500).json({ error: 'Failed to create session' });
+    }
+  });
+
+  app.delete('/api/sessions/:id', async (req: express.Request, res: express.Response) => {
+    try {
+      const deleted = await context.sessions.delete(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: `Unknown session: ${req.params.id}` });
+      }
+      await context.turns.clear(req.params.id);
+      res.json({ success: true });
+    } catch (error: any) {
+      broadcastLog(`❌ Error deleting session: ${error.message}`);
+      res.status(500).json({ error: 'Failed to delete session' });
+    }
+  });
+
+  // Branches are sessions forked from another one; the tree is built from `parentId`
+  app.get('/api/timelines', async (req: express.Request, res: express.Response) => {
+    try {
+      const sessions = await context.sessions.list();
+      res.json(await Promise.all(sessions.map(async session => {
+        if (!session.fork) return { ...session, branchIntention: null };
+        // The first intention played in the branch after it split off
+        const snapshots = await context.turns.snapshots(session.id);
+        return { ...session, branchIntention: snapshots[session.fork.turn]?.action ?? null };
+      })));
+    } catch (error: any) {
+      broadcastLog(`❌ Error listing timelines: ${error.message}`);
+      res.status(500).json({ error: 'Failed to list timelines' });
+    }
+  });
+
+  // Fork a session at history entry `entryIndex`, or at its latest state, into a new branch
+  // with its own copy of the memories from before that point
+  app.post('/api/sessions/:id/fork', async (req: express.Request, res: express.Response) => {
+    try {
+      const parentId = req.params.id;
+      const { name, entryIndex, gameState } = req.body;
+      if (entryIndex !== undefined && (!Number.isInteger(entryIndex) || entryIndex < 0)) {
+        return res.status(400).json({ error: 'entryIndex must be a non-negative integer' });
+      }
+
+      const parentMemory = await context.sessions.get(parentId);
+      if (!parentMemory) {
+        return res.status(404).json({ error: `Unknown session: ${parentId}` });
+      }
+      if (gameState) {
+        await context.turns.setCurrent(parentId, gameState);
+      }
+
+      const located = await context.turns.locate(parentId, entryIndex);
+      if (!located) {
+        return res.status(404).json({ error: 'No game state to fork from' });
+      }
+
+      const session = await context.sessions.create(name, {
+        parentId,
+        fork: {
+          entryIndex: entryIndex ?? located.gameState.history.length - 1,
+          turn: located.turn,
+          location: located.gameState.location,
+          time: located.gameState.time,
+          parentIntention: located.nextAction
+        }
+      });
+      await context.turns.branch(parentId, session.id, entryIndex);
+
+      // Vectors from an earlier embedding model are made again for the branch
+      const memories = releaseOrphans((await parentMemory.list({ includeArchived: true }))
+        .filter(record => located.since === null || record.createdAt < located.since)
+        .map(toPlainRecord));
+      await (await context.sessions.get(session.id))!.addMany(memories, { embedding: parentMemory.embeddingStatus().recorded });
+
+      broadcastLog(`🌿 Forked "${session.name}" from ${parentId} with ${memories.length} memories`);
+      res.status(201).json({ session, gameState: located.gameState });
+    } catch (error: any) {
+      broadcastLog(`❌ Error forking session: ${error.message}`);
+      res.status(500).json({ error: 'Failed to fork session' });
+    }
+  });
+
+  // The latest game state of a session, for switching between branches
+  app.get('/api/sessions/:id/state', async (req: express.Request, res: express.Response) => {
+    try {
+      const gameState = await context.turns.getCurrent(req.params.id);
+      if (!gameState) {
+        return res.status(404).json({ error: `No game state for session: ${req.params.id}` });
+      }
+      res.json({ gameState });
+    } catch (error: any) {
+      broadcastLog(`❌ Error reading session state: ${error.message}`);
+      res.status(500).json({ error: 'Failed to read session state' });
+    }
+  });
+
+  app.put('/api/sessions/:id/state', async (req: express.Request, res: express.Response) => {
+    try {
+      const { gameState } = req.body;
+      if (!gameState) {
+        return res.status(400).json({ error: 'Missing gameState' });
+      }
+      if (!(await context.sessions.get(req.params.id))) {
+        return res.status(404).json({ error: `Unknown session: ${req.params.id}` });
+      }
+      await context.turns.setCurrent(req.params.id, gameState);
+      res.json({ success: true });
+    } catch (error: any) {
+      broadcastLog(`❌ Error storing session state: ${error.message}`);
+      res.status(500).json({ error: 'Failed to store session state' });
+    }
+  });
+
+  const sendSaveFormatError = (res: express.Response, error: SaveFormatError) => {
+    res.status(422).json({ error: 'Unreadable save', code: error.code, issues: error.issues, message: error.message });
+  };
+
+  // Undo the last turn, or go back to the point where history entry `entryIndex` was the latest.
+  // Memories created by the undone turns are removed.
+  app.post('/api/rewind', requireSession, async (req: express.Request, res: express.Response) => {
+    try {
+      const { entryIndex } = req.body;
+      if (entryIndex !== undefined && (!Number.isInteger(entryIndex) || entryIndex < 0)) {
+        return res.status(400).json({ error: 'entryIndex must be a non-negative integer' });
+      }
+
+      const rewound = await inSessionQueue(res.locals.sessionId, async () => {
+        const rewound = await context.turns.rewind(res.locals.sessionId, entryIndex);
+        return rewound && { gameState: rewound.gameState, removedMemories: await res.locals.memory.deleteSince(rewound.since) };
+      });
+      if (!rewound) {
+        return res.status(404).json({ error: 'No earlier turn to rewind to' });
+      }
+      res.json(rewound);
+    } catch (error: any) {
+      broadcastLog(`❌ Error rewinding: ${error.message}`);
+      res.status(500).json({ error: 'Failed to rewind' });
+    }
+  });
+
+  // The map and the stops of Bilbo's route through `history`, for the journey view
+  app.post('/api/journey', async (req: express.Request, res: express.Response) => {
+    try {
+      const { history, language = 'ru' } = req.body;
+      if (!Array.isArray(history)) {
+        return res.status(400).json({ error: 'history must be an array' });
+      }
+
+      const geography = await loadGeography();
+      res.json({ map: geography.map(language), stops: buildJourney(history, geography, language) });
+    } catch (error: any) {
+      broadcastLog(`❌ Error building journey: ${error.message}`);
+      res.status(500).json({ error: 'Failed to build journey' });
+    }
+  });
+
+  // The beats of the book with how this playthrough went through them, for the story view
+  app.post('/api/plot', async (req: express.Request, res: express.Response) => {
+    try {
+      const { plot, language = 'ru' } = req.body;
+      if (!Array.isArray(plot)) {
+        return res.status(400).json({ error: 'plot must be an array' });
+      }
+
+      res.json(describePlot(await loadPlot(), plot, language));
+    } catch (error: any) {
+      broadcastLog(`❌ Error describing plot: ${error.message}`);
+      res.status(500).json({ error: 'Failed to describe plot' });
+    }
+  });
+
+  app.get('/api/saves', async (req: express.Request, res: express.Response) => {
+    try {
+      res.json(await context.saves.list());
+    } catch (error: any) {
+      broadcastLog(`❌ Error listing saves: ${error.message}`);
+      res.status(500).json({ error: 'Failed to list saves' });
+    }
+  });
+
+  app.post('/api/saves', requireSession, async (req: express.Request, res: express.Response) => {
+    try {
+      const { name, gameState } = req.body;
+      if (!gameState) {
+        return res.status(400).json({ error: 'Missing gameState' });
+      }
+      const save = await context.saves.create(name || new Date().toLocaleString(), res.locals.sessionId, gameState, res.locals.memory);
+      res.status(201).json(save);
+    } catch (error: any) {
+      broadcastLog(`❌ Error creating save: ${error.message}`);
+      res.status(500).json({ error: 'Failed to save game' });
+    }
+  });
+
+  app.put('/api/saves/:id', requireSession, async (req: express.Request, res: express.Response) => {
+    try {
+      const { gameState } = req.body;
+      if (!gameState) {
+        return res.status(400).json({ error: 'Missing gameState' });
+      }
+      const save = await context.saves.overwrite(req.params.id, res.locals.sessionId, gameState, res.locals.memory);
+      if (!save) {
+        return res.status(404).json({ error: `Unknown save: ${req.params.id}` });
+      }
+      res.json(save);
+    } catch (error: any) {
+      broadcastLog(`❌ Error overwriting save: ${error.message}`);
+      res.status(500).json({ error: 'Failed to save game' });
+    }
+  });
+
+  // Restores the saved memories into the caller's session and returns the game state
+  app.post('/api/saves/:id/load', requireSession, async (req: express.Request, res: express.Response) => {
+    try {
+      const loaded = await inSessionQueue(res.locals.sessionId, async () => {
+        const loaded = await context.saves.load(req.params.id, res.locals.memory);
+        if (loaded) {
+          await context.turns.clear(res.locals.sessionId);
+          await context.turns.setCurrent(res.locals.sessionId, loaded.gameState);
+        }
+        return loaded;
+      });
+      if (!loaded) {
+        return res.status(404).json({ error: `Unknown save: ${req.params.id}` });
+      }
+      res.json(loaded);
+    } catch (error: any) {
+      broadcastLog(`❌ Error loading save: ${error.message}`);
+      if (error instanceof SaveFormatError) {
+        return sendSaveFormatError(res, error);
+      }
+      res.status(500).json({ error: 'Failed to load game' });
+    }
+  });
+
+  // A save file from disk, e.g. one downloaded by an older version of the game
+  app.post('/api/saves/import', requireSession, async (req: express.Request, res: express.Response) => {
+    try {
+      const loaded = await inSessionQueue(res.locals.sessionId, async () => {
+        const loaded = await context.saves.import(req.body.save, res.locals.memory);
+        await context.turns.clear(res.locals.sessionId);
+        await context.turns.setCurrent(res.locals.sessionId, loaded.gameState);
+        return loaded;
+      });
+      res.json(loaded);
+    } catch (error: any) {
+      broadcastLog(`❌ Error importing save: ${error.message}`);
+      if (error instanceof SaveFormatError) {
+        return sendSaveFormatError(res, error);
+      }
+      res.status(500).json({ error: 'Failed to import save' });
+    }
+  });
+
+  app.get('/api/saves/:id/export', async (req: express.Request, res: express.Response) => {
+    try {
+      const save = await context.saves.export(req.params.id);
+      if (!save) {
+        return res.status(404).json({ error: `Unknown save: ${req.params.id}` });
+      }
+      res.attachment(`hobbit_save_${save.id}.json`);
+      res.json(save);
+    } catch (error: any) {
+      broadcastLog(`❌ Error exporting save: ${error.message}`);
+      res.status(500).json({ error: 'Failed to export save' });
+    }
+  });
+
+  app.delete('/api/saves/:id', async (req: express.Request, res: express.Response) => {
+    try {
+      const deleted = await context.saves.delete(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: `Unknown save: ${req.params.id}` });
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      broadcastLog(`❌ Error deleting save: ${error.message}`);
+      res.status(500).json({ error: 'Failed to delete save' });
+    }
+  });
+
+  app.get('*', (req: express.Request, res: express.Response) => {
+    res.sendFile(path.join(__dirname, '../dist/index.html'));
+  });
+
+  return app;
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { checkTime, describeTime, elapsedHours, formatDuration, moonPhase, normalizeTime } from './calendar';
+import type { Time } from './types';
+
+const at = (day: number, month: string, time: string = '8:00', year: number = 2941): Time =>
+  ({ day, month, year, era: 'Third Age', time });
+
+describe('elapsedHours', () => {
+  it('counts the Lithe days at midsummer and Yule at the turn of the year', () => {
+    expect(elapsedHours(at(30, 'June'), at(1, 'July'))).toBe(4 * 24);
+    expect(elapsedHours(at(30, 'June', '8:00', 2940), at(1, 'July', '8:00', 2940))).toBe(5 * 24);
+    expect(elapsedHours(at(30, 'December', '8:00', 2941), at(1, 'January', '8:00', 2942))).toBe(3 * 24);
+  });
+
+  it('reads month names of every language and the Shire names', () => {
+    expect(elapsedHours(at(22, 'сентября'), at(22, 'Halimath', '9:30'))).toBe(1.5);
+    expect(elapsedHours(at(22, 'septiembre'), at(1, 'октябрь'))).toBe(9 * 24);
+  });
+});
+
+describe('checkTime', () => {
+  it('rejects days a month does not have and unknown months', () => {
+    expect(checkTime(at(22, 'September'), at(31, 'September'))).toEqual(['newTime.day: September has days 1 to 30, not 31']);
+    expect(checkTime(at(22, 'September'), at(1, 'Overlithe'))).toEqual(['newTime.month: Overlithe only exists in leap years, and 2941 is not one']);
+    expect(checkTime(at(22, 'September'), at(23, 'Septembre'))[0]).toMatch(/^newTime\.month: "Septembre" is not a month/);
+  });
+
+  it('does not let time go back', () => {
+    expect(checkTime(at(22, 'September', '8:00'), at(22, 'September', '8:00'))).toEqual([]);
+    expect(checkTime(at(22, 'September', '8:00'), at(22, 'September', '7:59'))).toEqual([
+      'newTime: 22 September 2941, 7:59 is before the current time 22 September 2941, 8:00; time only moves forward'
+    ]);
+  });
+});
+
+describe('normalizeTime', () => {
+  it('writes months and clocks the way the game does and keeps the era', () => {
+    expect(normalizeTime({ ...at(23, 'Halimath', '07:05'), era: '' }, 'ru', at(22, 'сентября')))
+      .toEqual({ day: 23, month: 'сентября', year: 2941, era: 'Third Age', time: '7:05' });
+  });
+});
+
+describe('derived facts', () => {
+  it('shows the crescent moon on Midsummer Eve 2941', () => {
+    expect(moonPhase(at(1, 'Lithe', '21:00'))).toBe('waxing crescent moon');
+  });
+
+  it('describes the time of day, the season and the moon', () => {
+    expect(describeTime(at(22, 'September', '8:00'))).toMatch(/^morning, autumn, .+ moon$/);
+    expect(describeTime(at(22, 'Smaugtide', 'noonish'))).toBe('');
+  });
+
+  it('describes the moment and durations in the game language', () => {
+    expect(describeTime(at(1, 'Lithe', '21:00'), 'ru')).toBe('ночь, лето, молодой месяц');
+    expect(describeTime(at(1, 'Lithe', '21:00'), 'es')).toBe('noche, verano, luna creciente');
+    expect([1, 3, 5, 21].map(hours => formatDuration(hours, 'ru'))).toEqual(['1 час', '3 часа', '5 часов', '21 час']);
+    expect(formatDuration(72, 'ru')).toBe('3 дня');
+    expect(formatDuration(0.5, 'es')).toBe('30 minutos');
+    expect(formatDuration(1, 'en')).toBe('1 hour');
+  });
+});
@@ -0,0 +1,309 @@
+import type { Time } from './types';
+
+// ========================
+// CALENDAR
+// ========================
+
+// The Shire Reckoning: twelve months of 30 days, with the Yule days around the turn of the year
+// and the Lithe days at midsummer. Leap years add Overlithe after Midyear's Day.
+// The game writes months with their everyday names in each language ("September" is Halimath).
+
+const DAYS_PER_MONTH = 30;
+const MINUTES_PER_DAY = 24 * 60;
+
+type SpecialDay = 'yule' | 'lithe' | 'midyear' | 'overlithe';
+
+const TIMES_OF_DAY = ['night', 'dawn', 'morning', 'midday', 'afternoon', 'evening'] as const;
+const SEASONS = ['winter', 'spring', 'summer', 'autumn'] as const;
+const MOON_PHASES = [
+  'new moon', 'waxing crescent moon', 'first quarter moon', 'waxing gibbous moon',
+  'full moon', 'waning gibbous moon', 'last quarter moon', 'waning crescent moon'
+] as const;
+
+export type TimeOfDay = typeof TIMES_OF_DAY[number];
+export type Season = typeof SEASONS[number];
+export type MoonPhase = typeof MOON_PHASES[number];
+
+type DurationUnit = 'minute' | 'hour' | 'day';
+
+interface LocaleCalendar {
+  // Per month, how the game writes it first, then accepted spellings
+  months: string[][];
+  special: Record<SpecialDay, string[]>;
+  // How the prompt describes the moment
+  phrases: Record<TimeOfDay | Season | MoonPhase, string>;
+  // Unit names by plural category of the number before them
+  units: Record<DurationUnit, Partial<Record<Intl.LDMLPluralRule, string>> & { other: string }>;
+}
+
+const SHIRE_MONTHS = [
+  'Afteryule', 'Solmath', 'Rethe', 'Astron', 'Thrimidge', 'Forelithe',
+  'Afterlithe', 'Wedmath', 'Halimath', 'Winterfilth', 'Blotmath', 'Foreyule'
+];
+
+const CALENDARS: Record<string, LocaleCalendar> = {
+  en: {
+    months: [
+      ['January'], ['February'], ['March'], ['April'], ['May'], ['June'],
+      ['July'], ['August'], ['September'], ['October'], ['November'], ['December']
+    ],
+    special: { yule: ['Yule'], lithe: ['Lithe'], midyear: ["Midyear's Day", 'Midyear'], overlithe: ['Overlithe'] },
+    phrases: {
+      night: 'night', dawn: 'dawn', morning: 'morning', midday: 'midday', afternoon: 'afternoon', evening: 'evening',
+      winter: 'winter', spring: 'spring', summer: 'summer', autumn: 'autumn',
+      'new moon': 'new moon', 'waxing crescent moon': 'waxing crescent moon', 'first quarter moon': 'first quarter moon',
+      'waxing gibbous moon': 'waxing gibbous moon', 'full moon': 'full moon', 'waning gibbous moon': 'waning gibbous moon',
+      'last quarter moon': 'last quarter moon', 'waning crescent moon': 'waning crescent moon'
+    },
+    units: {
+      minute: { one: 'minute', other: 'minutes' },
+      hour: { one: 'hour', other: 'hours' },
+      day: { one: 'day', other: 'days' }
+    }
+  },
+  es: {
+    months: [
+      ['enero'], ['febrero'], ['marzo'], ['abril'], ['mayo'], ['junio'],
+      ['julio'], ['agosto'], ['septiembre', 'setiembre'], ['octubre'], ['noviembre'], ['diciembre']
+    ],
+    special: { yule: ['Yule'], lithe: ['Lithe'], midyear: ['Día de Mitad de Año', 'Mitad de Año'], overlithe: ['Sobrelithe'] },
+    phrases: {
+      night: 'noche', dawn: 'amanecer', morning: 'mañana', midday: 'mediodía', afternoon: 'tarde', evening: 'anochecer',
+      winter: 'invierno', spring: 'primavera', summer: 'verano', autumn: 'otoño',
+      'new moon': 'luna nueva', 'waxing crescent moon': 'luna creciente', 'first quarter moon': 'cuarto creciente',
+      'waxing gibbous moon': 'luna gibosa creciente', 'full moon': 'luna llena', 'waning gibbous moon': 'luna gibosa menguante',
+      'last quarter moon': 'cuarto menguante', 'waning crescent moon': 'luna menguante'
+    },
+    units: {
+      minute: { one: 'minuto', other: 'minutos' },
+      hour: { one: 'hora', other: 'horas' },
+      day: { one: 'día', other: 'días' }
+    }
+  },
+  ru: {
+    // Dates use the genitive ("22 сентября")
+    months: [
+      ['января', 'январь'], ['февраля', 'февраль'], ['марта', 'март'], ['апреля', 'апрель'], ['мая', 'май'], ['июня', 'июнь'],
+      ['июля', 'июль'], ['августа', 'август'], ['сентября', 'сентябрь'], ['октября', 'октябрь'], ['ноября', 'ноябрь'], ['декабря', 'декабрь']
+    ],
+    special: { yule: ['Йоль', 'Юл'], lithe: ['Лита', 'Лите'], midyear: ['Середина Лета', 'Средний день'], overlithe: ['Надлитье'] },
+    phrases: {
+      night: 'ночь', dawn: 'рассвет', morning: 'утро', midday: 'полдень', afternoon: 'день', evening: 'вечер',
+      winter: 'зима', spring: 'весна', summer: 'лето', autumn: 'осень',
+      'new moon': 'новолуние', 'waxing crescent moon': 'молодой месяц', 'first quarter moon': 'первая четверть луны',
+      'waxing gibbous moon': 'растущая луна', 'full moon': 'полнолуние', 'waning gibbous moon': 'убывающая луна',
+      'last quarter moon': 'последняя четверть луны', 'waning crescent moon': 'старый месяц'
+    },
+    units: {
+      minute: { one: 'минута', few: 'минуты', many: 'минут', other: 'минуты' },
+      hour: { one: 'час', few: 'часа', many: 'часов', other: 'часа' },
+      day: { one: 'день', few: 'дня', many: 'дней', other: 'дня' }
+    }
+  }
+};
+
+const calendarFor = (language: string) => CALENDARS[language] || CALENDARS.en;
+
+// Where a month or special day sits in a year
+type MonthRef = { month: number } | { special: SpecialDay };
+
+const nameKey = (name: string) => name.trim().toLowerCase().replace(/ё/g, 'е').replace(/[’']/g, '');
+
+// Any language's name or a Shire month name
+export function parseMonth(name: string): MonthRef | null {
+  const key = nameKey(name);
+
+  const shire = SHIRE_MONTHS.findIndex(month => nameKey(month) === key);
+  if (shire !== -1) return { month: shire };
+
+  for (const calendar of Object.values(CALENDARS)) {
+    const month = calendar.months.findIndex(names => names.some(candidate => nameKey(candidate) === key));
+    if (month !== -1) return { month };
+
+    const special = (Object.keys(calendar.special) as SpecialDay[])
+      .find(day => calendar.special[day].some(candidate => nameKey(candidate) === key));
+    if (special) return { special };
+  }
+  return null;
+}
+
+// Every fourth year, except the last year of a century
+export function isLeapYear(year: number): boolean {
+  return year % 4 === 0 && year % 100 !== 0;
+}
+
+const daysInYear = (year: number) => isLeapYear(year) ? 366 : 365;
+
+// How many days a month or special day has; 2 Yule opens the year and 1 Yule closes it
+function daysIn(ref: MonthRef, year: number): number {
+  if ('month' in ref) return DAYS_PER_MONTH;
+  if (ref.special === 'yule' || ref.special === 'lithe') return 2;
+  if (ref.special === 'overlithe') return isLeapYear(year) ? 1 : 0;
+  return 1;
+}
+
+// 0-based day of the year
+function dayOfYear(ref: MonthRef, day: number, year: number): number {
+  const midsummer = 1 + 6 * DAYS_PER_MONTH; // 2 Yule and the first half of the year
+  const lithe = isLeapYear(year) ? 4 : 3;
+
+  if ('month' in ref) {
+    return ref.month < 6
+      ? 1 + ref.month * DAYS_PER_MONTH + day - 1
+      : midsummer + lithe + (ref.month - 6) * DAYS_PER_MONTH + day - 1;
+  }
+
+  switch (ref.special) {
+    case 'yule': return day === 2 ? 0 : daysInYear(year) - 1;
+    case 'lithe': return day === 1 ? midsummer : midsummer + lithe - 1;
+    case 'midyear': return midsummer + 1;
+    case 'overlithe': return midsummer + 2;
+  }
+}
+
+function parseClock(clock: string): { hours: number, minutes: number } | null {
+  const match = clock.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  return hours < 24 && minutes < 60 ? { hours, minutes } : null;
+}
+
+// Problems with a date on its own, as "field: message"
+function dateIssues(time: Time): string[] {
+  const ref = parseMonth(time.month);
+  if (!ref) {
+    return [`newTime.month: "${time.month}" is not a month; use ${CALENDARS.en.months.map(names => names[0]).join(', ')} or a Shire month name`];
+  }
+
+  const issues: string[] = [];
+  const days = daysIn(ref, time.year);
+  if (days === 0) {
+    issues.push(`newTime.month: Overlithe only exists in leap years, and ${time.year} is not one`);
+  } else if (!Number.isInteger(time.day) || time.day < 1 || time.day > days) {
+    issues.push(`newTime.day: ${time.month} has ${days === 1 ? 'a single day' : `days 1 to ${days}`}, not ${time.day}`);
+  }
+  if (!parseClock(time.time)) {
+    issues.push('newTime.time: must be "hour:minute" in 24 hour format');
+  }
+  return issues;
+}
+
+// Minutes since the start of year 0, null when the date cannot be read
+function toMinutes(time: Time): number | null {
+  const ref = parseMonth(time.month);
+  const clock = parseClock(time.time);
+  if (!ref || !clock || dateIssues(time).length > 0) return null;
+
+  // Whole 400-year cycles keep the day count cheap for Third Age years
+  const cycles = Math.floor(time.year / 400);
+  let days = cycles * (400 * 365 + 96);
+  for (let year = cycles * 400; year < time.year; year++) days += daysInYear(year);
+  days += dayOfYear(ref, time.day, time.year);
+
+  return days * MINUTES_PER_DAY + clock.hours * 60 + clock.minutes;
+}
+
+// In-game hours between two moments, null when either date cannot be read
+export function elapsedHours(from: Time, to: Time): number | null {
+  const start = toMinutes(from);
+  const end = toMinutes(to);
+  return start === null || end === null ? null : (end - start) / 60;
+}
+
+// "3 days", "3 дня"; minutes under an hour, hours under two days
+export function formatDuration(hours: number, language: string = 'en'): string {
+  const [amount, unit]: [number, DurationUnit] = hours < 1 ? [Math.round(hours * 60), 'minute']
+    : hours < 48 ? [Math.round(hours), 'hour']
+    : [Math.round(hours / 24), 'day'];
+  const names = calendarFor(language).units[unit];
+  return `${amount} ${names[new Intl.PluralRules(language).select(amount)] ?? names.other}`;
+}
+
+// "22 September 2941, 8:00", how memories record when they happened
+export function formatTime(time: Time): string {
+  return `${time.day} ${time.month} ${time.year}, ${time.time}`;
+}
+
+// The other way round; the era is not part of the text
+export function parseTime(text: string): Time | null {
+  const match = text.trim().match(/^(\d+) (.+) (\d+), (\d{1,2}:\d{2})$/);
+  return match ? { day: Number(match[1]), month: match[2], year: Number(match[3]), era: '', time: match[4] } : null;
+}
+
+// ========================
+// TIME CHECKS
+// ========================
+
+// A valid date that does not go back before the current one
+export function checkTime(current: Time, next: Time): string[] {
+  const issues = dateIssues(next);
+  if (issues.length > 0) return issues;
+
+  const elapsed = elapsedHours(current, next);
+  if (elapsed !== null && elapsed < 0) {
+    return [`newTime: ${formatTime(next)} is before the current time ${formatTime(current)}; time only moves forward`];
+  }
+  return [];
+}
+
+
+// Write a valid date the way the game does in `language`: month names, "8:05" clocks, the era carried over
+export function normalizeTime(time: Time, language: string, current?: Time): Time {
+  const ref = parseMonth(time.month);
+  const clock = parseClock(time.time);
+  const calendar = calendarFor(language);
+
+  return {
+    day: time.day,
+    month: !ref ? time.month : 'month' in ref ? calendar.months[ref.month][0] : calendar.special[ref.special][0],
+    year: time.year,
+    era: time.era.trim() || current?.era || '',
+    time: clock ? `${clock.hours}:${String(clock.minutes).padStart(2, '0')}` : time.time
+  };
+}
+
+// ========================
+// DERIVED FACTS
+// ========================
+
+// A new moon three days before Midyear's Day 2941 puts the crescent moon over Rivendell
+// on Midsummer's Eve, when Elrond read the moon-letters
+const SYNODIC_MONTH_DAYS = 29.53;
+const REFERENCE_NEW_MOON: Time = { day: 28, month: 'Forelithe', year: 2941, era: '', time: '12:00' };
+
+export function timeOfDay(time: Time): TimeOfDay | null {
+  const clock = parseClock(time.time);
+  if (!clock) return null;
+  const hour = clock.hours;
+  if (hour < 5) return 'night';
+  if (hour < 7) return 'dawn';
+  if (hour < 12) return 'morning';
+  if (hour < 14) return 'midday';
+  if (hour < 18) return 'afternoon';
+  if (hour < 21) return 'evening';
+  return 'night';
+}
+
+export function season(time: Time): Season | null {
+  const ref = parseMonth(time.month);
+  if (!ref) return null;
+  if (!('month' in ref)) return ref.special === 'yule' ? 'winter' : 'summer';
+  return SEASONS[Math.floor((ref.month + 1) % 12 / 3)];
+}
+
+export function moonPhase(time: Time): MoonPhase | null {
+  const hours = elapsedHours(REFERENCE_NEW_MOON, time);
+  if (hours === null) return null;
+  const age = ((hours / 24) % SYNODIC_MONTH_DAYS + SYNODIC_MONTH_DAYS) % SYNODIC_MONTH_DAYS;
+  return MOON_PHASES[Math.round(age / SYNODIC_MONTH_DAYS * MOON_PHASES.length) % MOON_PHASES.length];
+}
+
+// "morning, autumn, waxing crescent moon" in the game language, for the prompt
+export function describeTime(time: Time, language: string = 'en'): string {
+  const { phrases } = calendarFor(language);
+  return [timeOfDay(time), season(time), moonPhase(time)]
+    .filter((phrase): phrase is TimeOfDay | Season | MoonPhase => phrase !== null)
+    .map(phrase => phrases[phrase])
+    .join(', ');
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { applyCharacterUpdates, MAX_CHARACTER_FACTS } from './characters';
+import { gameResponseSchema } from './responseSchema';
+import { sampleResponse } from './testUtils';
+import type { Character, Location, Time } from './types';
+
+const bagEnd: Location = { region: 'The Shire', settlement: 'Hobbiton', place: 'Bag End' };
+const morning: Time = { day: 22, month: 'September', year: 2941, era: 'Third Age', time: '8:10' };
+const evening: Time = { ...morning, time: '20:00' };
+
+const gandalf: Character = {
+  name: 'Gandalf',
+  race: 'wizard',
+  present: true,
+  disposition: 'amused',
+  lastSeen: { location: bagEnd, time: morning },
+  facts: ['marked the door with a rune']
+};
+
+const turn = (characters: any[]) => gameResponseSchema.parse(sampleResponse({ characters }));
+
+describe('applyCharacterUpdates', () => {
+  it('adds new characters and marks those left out as gone', () => {
+    const roster = applyCharacterUpdates([gandalf], turn([{ name: 'Thorin', race: 'dwarf', disposition: 'haughty', newFacts: ['leads the company'] }]), bagEnd, evening);
+
+    expect(roster).toEqual([
+      { ...gandalf, present: false },
+      { name: 'Thorin', race: 'dwarf', present: true, disposition: 'haughty', lastSeen: { location: bagEnd, time: evening }, facts: ['leads the company'] }
+    ]);
+  });
+
+  it('keeps what is known about a character and records only new facts', () => {
+    const [updated] = applyCharacterUpdates([gandalf], turn([{ name: 'gandalf', disposition: 'impatient', newFacts: ['Marked the door with a rune', 'brought a map'] }]), bagEnd, evening);
+
+    expect(updated.race).toBe('wizard');
+    expect(updated.disposition).toBe('impatient');
+    expect(updated.facts).toEqual(['marked the door with a rune', 'brought a map']);
+    expect(updated.lastSeen.time).toBe(evening);
+  });
+
+  it('keeps only the latest facts', () => {
+    const newFacts = Array.from({ length: MAX_CHARACTER_FACTS + 2 }, (_, index) => `fact ${index}`);
+    const [updated] = applyCharacterUpdates([], turn([{ name: 'Balin', disposition: 'kind', newFacts }]), bagEnd, morning);
+
+    expect(updated.facts).toEqual(newFacts.slice(-MAX_CHARACTER_FACTS));
+  });
+});
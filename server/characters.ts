@@ -0,0 +1,42 @@
+import type { GameResponse } from './responseSchema';
+import type { Character, Location, Time } from './types';
+
+// ========================
+// CHARACTER ROSTER
+// ========================
+
+// Keep the roster readable in the prompt: only the latest facts about each character
+export const MAX_CHARACTER_FACTS = 8;
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export function findCharacter(characters: Character[], name: string): Character | undefined {
+  return characters.find(character => sameName(character.name, name));
+}
+
+// The roster after a turn. The answer lists everyone in the scene, so characters it leaves out have left;
+// Bilbo meets the characters it does not know yet.
+export function applyCharacterUpdates(characters: Character[], response: GameResponse, location: Location, time: Time): Character[] {
+  const updated = characters.map(character => ({ ...character, present: false }));
+
+  for (const update of response.characters) {
+    let character = findCharacter(updated, update.name);
+    if (!character) {
+      character = { name: update.name.trim(), race: '', present: false, disposition: '', lastSeen: { location, time }, facts: [] };
+      updated.push(character);
+    }
+    const knownFacts = character.facts;
+
+    character.race = update.race || character.race;
+    character.disposition = update.disposition;
+    character.present = update.present;
+    if (update.present) {
+      character.lastSeen = { location, time };
+    }
+
+    const newFacts = update.newFacts.filter(fact => !knownFacts.some(known => sameName(known, fact)));
+    character.facts = [...knownFacts, ...newFacts].slice(-MAX_CHARACTER_FACTS);
+  }
+
+  return updated;
+}
@@ -0,0 +1,10 @@
+import { checkLocales, formatLocaleReport } from './locales';
+
+// ========================
+// LOCALE CHECK
+// ========================
+
+// `npm run check-locales [-- <reference language>]`; fails when a locale has problems
+const report = await checkLocales(undefined, process.argv[2]);
+console.log(formatLocaleReport(report));
+process.exitCode = report.issues.length > 0 ? 1 : 0;
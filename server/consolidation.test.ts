@@ -0,0 +1,101 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { consolidateMemories, decayImportance, groupEpisodes, IMPORTANCE_HALF_LIFE_DAYS } from './consolidation';
+import { connectMemoryDatabase, createMemoryStore } from './memory';
+import { createMockLanguageModel } from './mockModel';
+import { createHashEmbedder } from './testUtils';
+import type { MemoryRecord, Time } from './types';
+
+const now: Time = { day: 22, month: 'September', year: 2941, era: 'Third Age', time: '8:00' };
+
+let dbPath: string;
+
+beforeEach(async () => {
+  dbPath = await fs.mkdtemp(path.join(os.tmpdir(), 'hobbit-consolidation-'));
+});
+
+afterEach(async () => {
+  await fs.rm(dbPath, { recursive: true, force: true });
+});
+
+function record(id: number, location: string, importance: number = 0.3): MemoryRecord {
+  return {
+    id: String(id),
+    content: `Memory number ${id}`,
+    embeddings: [],
+    time: '22 September 2941, 8:00',
+    location,
+    importance,
+    emotions: 'calm',
+    createdAt: id,
+    episodeId: '',
+    sources: '',
+    reinforcedAt: '22 September 2941, 8:00',
+    pinned: false
+  };
+}
+
+// Oldest first: four at Bag End, a verbatim memory, five more at Bag End, then fifteen at Bywater
+const oldMemories = () => Array.from({ length: 25 }, (_, id) => record(id, id < 10 ? 'Bag End' : 'Bywater', id === 4 ? 0.9 : 0.3));
+
+describe('decayImportance', () => {
+  it('halves the importance of a memory nobody recalled for a half-life', () => {
+    const faded = { importance: 0.4, time: '22 July 2941, 8:00', reinforcedAt: '22 July 2941, 8:00', pinned: false };
+
+    expect(IMPORTANCE_HALF_LIFE_DAYS).toBe(60);
+    expect(decayImportance(faded, now)).toBe(0.2);
+    expect(decayImportance({ ...faded, reinforcedAt: '22 September 2941, 8:00' }, now)).toBe(0.4);
+    expect(decayImportance({ ...faded, importance: 0.8 }, now)).toBe(0.8);
+    expect(decayImportance({ ...faded, reinforcedAt: 'long ago' }, now)).toBe(0.4);
+    expect(decayImportance({ ...faded, pinned: true }, now)).toBe(0.4);
+  });
+});
+
+describe('groupEpisodes', () => {
+  it('merges runs from one place, up to the episode size, around verbatim memories', () => {
+    expect(groupEpisodes(oldMemories()).map(group => group.map(memory => Number(memory.id)))).toEqual([
+      [0, 1, 2, 3],
+      [5, 6, 7, 8, 9],
+      [10, 11, 12, 13, 14, 15, 16, 17],
+      [18, 19, 20, 21, 22, 23, 24]
+    ]);
+  });
+
+  it('leaves pinned memories out of episodes', () => {
+    const memories = oldMemories().slice(10, 16);
+    memories[2].pinned = true;
+
+    expect(groupEpisodes(memories).map(group => group.map(memory => Number(memory.id)))).toEqual([[10, 11], [13, 14, 15]]);
+  });
+});
+
+describe('consolidateMemories', () => {
+  it('replaces old minor memories with linked episodes and brings them back when an episode is rewound', async () => {
+    const memory = createMemoryStore({ database: await connectMemoryDatabase(dbPath), tableName: 'memories', embed: createHashEmbedder() });
+    await memory.initialize();
+    await memory.addMany([...oldMemories(), ...Array.from({ length: 20 }, (_, index) => record(25 + index, 'Bree'))].map(({ embeddings, ...rest }) => rest));
+    const languageModel = createMockLanguageModel({
+      version: 1,
+      entries: ['Breakfast at Bag End', 'Packing at Bag End', 'Drinks at Bywater', 'Leaving Bywater']
+        .map(text => ({ content: [{ type: 'text' as const, text }] }))
+    }, 'script');
+
+    const report = await consolidateMemories({ languageModel, memory, now });
+
+    expect(report).toEqual({ decayed: 0, episodes: 4, merged: 24 });
+    expect(await memory.count()).toBe(25);
+    const episode = (await memory.list()).find(candidate => candidate.content === 'Packing at Bag End')!;
+    expect(episode).toMatchObject({ location: 'Bag End', createdAt: 9, sources: '5,6,7,8,9' });
+    const archived = (await memory.list({ includeArchived: true })).filter(candidate => candidate.episodeId === episode.id);
+    expect(archived.map(candidate => candidate.id).sort()).toEqual(['5', '6', '7', '8', '9']);
+    expect((await memory.find('Memory number 6', 5, 0)).map(result => result.id)).not.toContain('6');
+
+    await memory.deleteSince(20);
+
+    expect((await memory.list()).map(candidate => candidate.content)).toEqual([
+      'Memory number 19', 'Memory number 18', 'Drinks at Bywater', 'Packing at Bag End', 'Memory number 4', 'Breakfast at Bag End'
+    ]);
+  });
+});
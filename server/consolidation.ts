@@ -0,0 +1,131 @@
+import { generateText, LanguageModel } from 'ai';
+import { broadcastLog } from './logs';
+import { elapsedHours, formatTime, parseTime } from './calendar';
+import type { MemoryStore } from './memory';
+import type { MemoryRecord, Time } from './types';
+
+// ========================
+// MEMORY CONSOLIDATION
+// ========================
+
+// Memories this important are kept word for word and never fade
+export const VERBATIM_IMPORTANCE = 0.7;
+
+// A pass only starts once Bilbo recalls this many memories on their own
+export const CONSOLIDATION_THRESHOLD = 40;
+
+// The newest memories are left alone: the prompt quotes them and the story may still come back to them
+export const KEEP_RECENT_MEMORIES = 20;
+
+export const MAX_EPISODE_SIZE = 8;
+
+// In-game days for the importance of a memory that is never recalled to halve
+export const IMPORTANCE_HALF_LIFE_DAYS = 60;
+
+// Smaller losses wait for a later pass instead of rewriting every row each turn
+const MIN_DECAY_STEP = 0.05;
+
+const SUMMARY_INSTRUCTIONS = `You condense the memories of Bilbo Baggins.
+Write them as one short memory in first person, two or three sentences, keeping the people, places, objects and decisions they mention.
+Write in the language of the memories. Answer with the memory only.`;
+
+export interface ConsolidationReport {
+  decayed: number;
+  episodes: number;
+  merged: number;
+}
+
+// Importance at `now` after fading since `reinforcedAt`; unreadable dates and pinned memories do not fade
+export function decayImportance(record: Pick<MemoryRecord, 'importance' | 'time' | 'reinforcedAt' | 'pinned'>, now: Time): number {
+  if (record.importance >= VERBATIM_IMPORTANCE || record.pinned) return record.importance;
+
+  const since = parseTime(record.reinforcedAt || record.time);
+  const hours = since ? elapsedHours(since, now) : null;
+  if (hours === null || hours <= 0) return record.importance;
+
+  return Math.round(record.importance * Math.pow(0.5, hours / 24 / IMPORTANCE_HALF_LIFE_DAYS) * 1000) / 1000;
+}
+
+// Runs of consecutive memories (oldest first) from the same place make an episode.
+// Verbatim and pinned memories and earlier episodes break a run; a single memory is left as it is.
+export function groupEpisodes(records: MemoryRecord[]): MemoryRecord[][] {
+  const groups: MemoryRecord[][] = [];
+  let run: MemoryRecord[] = [];
+
+  const close = () => {
+    if (run.length > 1) groups.push(run);
+    run = [];
+  };
+
+  for (const record of records) {
+    if (record.importance >= VERBATIM_IMPORTANCE || record.pinned || record.sources) {
+      close();
+      continue;
+    }
+    if (run.length > 0 && (run[0].location !== record.location || run.length === MAX_EPISODE_SIZE)) close();
+    run.push(record);
+  }
+  close();
+
+  return groups;
+}
+
+async function summarizeEpisode(languageModel: LanguageModel, records: MemoryRecord[]): Promise<string> {
+  const { text } = await generateText({
+    model: languageModel,
+    system: SUMMARY_INSTRUCTIONS,
+    prompt: records.map(record => `${record.time}: ${record.content}`).join('\n')
+  });
+  if (!text.trim()) {
+    throw new Error('the summary is empty');
+  }
+  return text.trim();
+}
+
+// One pass over a session's memories at in-game time `now`: old memories fade unless they were recalled,
+// and runs of old minor memories are merged into summarized episodes. The merged memories stay in the
+// table, linked to their episode, for audit. A failed summary leaves its memories for the next pass.
+export async function consolidateMemories(options: { languageModel: LanguageModel, memory: MemoryStore, now: Time }): Promise<ConsolidationReport> {
+  const { languageModel, memory, now } = options;
+  const report: ConsolidationReport = { decayed: 0, episodes: 0, merged: 0 };
+
+  const recalled = await memory.list();
+  if (recalled.length < CONSOLIDATION_THRESHOLD) return report;
+
+  // The fading is written down, so the clock restarts at `now`
+  for (const record of recalled) {
+    const importance = decayImportance(record, now);
+    if (record.importance - importance >= MIN_DECAY_STEP) {
+      await memory.update([record.id], { importance, reinforcedAt: formatTime(now) });
+      record.importance = importance;
+      report.decayed++;
+    }
+  }
+
+  const old = recalled.slice(KEEP_RECENT_MEMORIES).reverse();
+  for (const group of groupEpisodes(old)) {
+    try {
+      const id = `episode-${Date.now()}-${report.episodes}`;
+      await memory.add({
+        id,
+        content: await summarizeEpisode(languageModel, group),
+        time: group[0].time,
+        location: group[0].location,
+        importance: Math.max(...group.map(record => record.importance)),
+        emotions: [...new Set(group.flatMap(record => record.emotions.split(', ')).filter(Boolean))].join(', '),
+        // An episode sits where its last memory was, so rewinding past that memory removes it
+        createdAt: group[group.length - 1].createdAt,
+        sources: group.map(record => record.id).join(','),
+        reinforcedAt: formatTime(now)
+      });
+      await memory.update(group.map(record => record.id), { episodeId: id });
+      report.episodes++;
+      report.merged += group.length;
+    } catch (error: any) {
+      broadcastLog(`❌ Could not merge ${group.length} memories from ${group[0].location}: ${error.message}`);
+    }
+  }
+
+  broadcastLog(`🗜️ Memory consolidation: ${report.decayed} faded, ${report.merged} merged into ${report.episodes} episodes`);
+  return report;
+}
@@ -0,0 +1,43 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createTransformersEmbedder, missingModelFiles, resolveEmbeddingConfig } from './embedding';
+
+let modelDir: string;
+
+beforeEach(async () => {
+  modelDir = await fs.mkdtemp(path.join(os.tmpdir(), 'hobbit-models-'));
+});
+
+afterEach(async () => {
+  await fs.rm(modelDir, { recursive: true, force: true });
+});
+
+describe('resolveEmbeddingConfig', () => {
+  it('accepts a model name or the full settings', () => {
+    expect(resolveEmbeddingConfig('Xenova/bge-m3')).toEqual({ model: 'Xenova/bge-m3' });
+    expect(resolveEmbeddingConfig({ model: 'Xenova/bge-m3', offline: true })).toEqual({ model: 'Xenova/bge-m3', offline: true });
+    expect(resolveEmbeddingConfig(undefined)).toEqual({});
+  });
+});
+
+describe('missingModelFiles', () => {
+  it('lists the weights and tokenizer files that are not in the model directory', async () => {
+    await fs.mkdir(path.join(modelDir, 'Xenova/tiny/onnx'), { recursive: true });
+    await fs.writeFile(path.join(modelDir, 'Xenova/tiny/config.json'), '{}');
+    await fs.writeFile(path.join(modelDir, 'Xenova/tiny/onnx/model_quantized.onnx'), '');
+
+    expect(await missingModelFiles(modelDir, 'Xenova/tiny')).toEqual(['tokenizer.json', 'tokenizer_config.json']);
+  });
+});
+
+describe('createTransformersEmbedder', () => {
+  it('fails fast offline when the weights are missing, and reports it', async () => {
+    const embed = createTransformersEmbedder({ model: 'Xenova/tiny', modelDir, offline: true });
+    expect(embed.status!()).toMatchObject({ model: 'Xenova/tiny', state: 'idle', offline: true, modelDir });
+
+    await expect(embed.load!()).rejects.toThrow(`Embedding model Xenova/tiny is not in ${modelDir} (missing config.json, tokenizer.json`);
+    expect(embed.status!()).toMatchObject({ state: 'failed', dimension: null, error: expect.stringContaining('missing') });
+  });
+});
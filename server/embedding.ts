@@ -0,0 +1,192 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { broadcastLog } from './logs';
+
+// ========================
+// EMBEDDINGS
+// ========================
+
+export const DEFAULT_EMBEDDING_MODEL = 'Xenova/multilingual-e5-small';
+
+// Weights are downloaded to and loaded from `<modelDir>/<model>/`
+export const DEFAULT_MODEL_DIR = 'models';
+
+// What the feature-extraction pipeline reads for a quantized model
+const MODEL_FILES = ['config.json', 'tokenizer.json', 'tokenizer_config.json', 'onnx/model_quantized.onnx'];
+
+export const EMBEDDING_BATCH_SIZE = 32;
+
+// `api.embedding` in game.json: a model name, or these settings
+export interface EmbeddingConfig {
+  model?: string;
+  modelDir?: string;
+  offline?: boolean; // never download; loading fails when the weights are not in modelDir
+  preload?: boolean; // load and warm up at startup instead of on the first memory (default true)
+}
+
+export interface EmbeddingModelStatus {
+  model: string;
+  state: 'idle' | 'loading' | 'ready' | 'failed';
+  dimension: number | null;
+  loadTimeMs: number | null; // loading and the warm-up pass
+  offline: boolean;
+  modelDir: string | null;
+  error: string | null;
+}
+
+// Embedders that can process several texts in one pass expose `batch`; `model` names the vectors they make.
+// Embedders backed by a model file can be loaded ahead of time with `load` and report on it with `status`.
+export interface Embedder {
+  (text: string): Promise<number[]>;
+  batch?: (texts: string[]) => Promise<number[][]>;
+  model?: string;
+  load?: () => Promise<void>;
+  status?: () => EmbeddingModelStatus;
+}
+
+export function resolveEmbeddingConfig(value: string | EmbeddingConfig | undefined): EmbeddingConfig {
+  return typeof value === 'string' ? { model: value } : { ...value };
+}
+
+// Embedders without a model file are always ready
+export function embedderStatus(embed: Embedder): EmbeddingModelStatus {
+  return embed.status?.() ?? {
+    model: embed.model || 'unknown',
+    state: 'ready',
+    dimension: null,
+    loadTimeMs: null,
+    offline: true,
+    modelDir: null,
+    error: null
+  };
+}
+
+// Files of `model` that are not in `modelDir`
+export async function missingModelFiles(modelDir: string, model: string): Promise<string[]> {
+  const missing: string[] = [];
+  for (const file of MODEL_FILES) {
+    try {
+      await fs.access(path.join(modelDir, model, file));
+    } catch {
+      missing.push(file);
+    }
+  }
+  return missing;
+}
+
+// Embed many texts, in one call when the embedder supports it
+export async function embedMany(embed: Embedder, texts: string[]): Promise<number[][]> {
+  if (embed.batch) {
+    return embed.batch(texts);
+  }
+
+  const vectors: number[][] = [];
+  for (const text of texts) {
+    vectors.push(await embed(text));
+  }
+  return vectors;
+}
+
+// Ensure text is a string to avoid tokenization errors (e.g. text.split is not a function)
+function toSafeText(text: unknown): string {
+  return typeof text === 'string' ? text :
+    Array.isArray(text) ? (text as any[]).join('\n') :
+      String(text || '');
+}
+
+// The transformers pipeline is imported and loaded by `load`, or on first use
+export function createTransformersEmbedder(config: EmbeddingConfig = {}): Embedder {
+  const embeddingModel = config.model || DEFAULT_EMBEDDING_MODEL;
+  const modelDir = path.resolve(config.modelDir || DEFAULT_MODEL_DIR);
+  const offline = config.offline || false;
+  const status: EmbeddingModelStatus = {
+    model: embeddingModel,
+    state: 'idle',
+    dimension: null,
+    loadTimeMs: null,
+    offline,
+    modelDir,
+    error: null
+  };
+  let extractor: Promise<any> | null = null;
+
+  async function createPipeline() {
+    const started = Date.now();
+    status.state = 'loading';
+    broadcastLog(`🤖 Loading embedding model ${embeddingModel} from ${modelDir}${offline ? ' (offline)' : ''}...`);
+
+    if (offline) {
+      const missing = await missingModelFiles(modelDir, embeddingModel);
+      if (missing.length > 0) {
+        throw new Error(
+          `Embedding model ${embeddingModel} is not in ${modelDir} (missing ${missing.join(', ')}). ` +
+          `Start once without api.embedding.offline to download it there, or copy the files from https://huggingface.co/${embeddingModel}`
+        );
+      }
+    }
+
+    const { pipeline, env } = await import('@xenova/transformers');
+    // Downloads land where local models are looked up, so the next start works offline
+    env.localModelPath = modelDir;
+    env.cacheDir = modelDir;
+    env.allowRemoteModels = !offline;
+
+    // Progress is reported per file in steps of 10%
+    const reported = new Map<string, number>();
+    const loaded = await pipeline('feature-extraction', embeddingModel, {
+      quantized: true,
+      progress_callback: (progress: any) => {
+        if (progress.status !== 'progress') return;
+        const percent = Math.floor((progress.progress || 0) / 10) * 10;
+        if (percent > (reported.get(progress.file) ?? -1)) {
+          reported.set(progress.file, percent);
+          broadcastLog(`⬇️ ${progress.file}: ${percent}%`);
+        }
+      }
+    });
+
+    // The first pass is the slow one; it also tells the dimension
+    const output = await loaded('warm-up', { pooling: 'mean', normalize: true });
+    status.dimension = output.data.length;
+    status.loadTimeMs = Date.now() - started;
+    status.state = 'ready';
+    status.error = null;
+    broadcastLog(`✅ Embedding model loaded: ${embeddingModel} (${status.dimension} dimensions, ${status.loadTimeMs} ms)`);
+    return loaded;
+  }
+
+  // Loads once; after a failure the next call tries again
+  function loadExtractor(): Promise<any> {
+    if (!extractor) {
+      extractor = createPipeline().catch((error: any) => {
+        extractor = null;
+        status.state = 'failed';
+        status.error = error.message;
+        broadcastLog(`❌ Could not load embedding model: ${error.message}`);
+        throw error;
+      });
+    }
+    return extractor;
+  }
+
+  const embed: Embedder = async (text: string): Promise<number[]> => {
+    const model = await loadExtractor();
+    const output = await model(toSafeText(text), { pooling: 'mean', normalize: true });
+    return Array.from(output.data);
+  };
+
+  // The pipeline pads the texts into one tensor of shape [texts, dimensions]
+  embed.batch = async (texts: string[]): Promise<number[][]> => {
+    if (texts.length === 0) return [];
+    const model = await loadExtractor();
+    const output = await model(texts.map(toSafeText), { pooling: 'mean', normalize: true });
+    return output.tolist();
+  };
+
+  embed.model = embeddingModel;
+  embed.load = async () => {
+    await loadExtractor();
+  };
+  embed.status = () => ({ ...status });
+  return embed;
+}
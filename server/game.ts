@@ -0,0 +1,325 @@
+import fs from 'fs/promises';
+import { streamText, tool, stepCountIs, LanguageModel } from 'ai';
+import { z } from 'zod';
+import { broadcastLog } from './logs';
+import { buildPrompt, parseGameResponse, extractPartialNarrative } from './prompt';
+import { checkTime, elapsedHours, formatDuration, formatTime, normalizeTime } from './calendar';
+import { applyCharacterUpdates } from './characters';
+import { checkTravel, loadGeography, Geography } from './geography';
+import { checkInventoryChanges, applyInventoryChanges, findItem, formatInventory } from './inventory';
+import { advancePlot, beatTitle, loadPlot } from './plot';
+import { gameResponseSchema, GameResponse, GameResponseError, formatIssues, buildRepairPrompt } from './responseSchema';
+import { SEARCH_MODES, MemoryStore } from './memory';
+import type { ApiResponse, GameState, InventoryItem, TurnStreamEvent } from './types';
+
+// ========================
+// GLOBALS & CONFIGURATION
+// ========================
+
+const MAX_MEMORY_SEARCH_DEPTH = 5;
+const MAX_RESPONSE_REPAIR_ATTEMPTS = 2;
+
+// Everything a turn needs; built once at startup (or per test)
+export interface GameContext {
+  languageModel: LanguageModel;
+  memory: MemoryStore;
+  // Prompt/response transcript file, null to disable
+  logFile: string | null;
+}
+
+async function appendPromptLog(context: GameContext, text: string) {
+  if (context.logFile) {
+    await fs.appendFile(context.logFile, text, 'utf8');
+  }
+}
+
+// ========================
+// AI TOOLS
+// ========================
+
+function getInventoryTools(inventory: InventoryItem[]) {
+  return {
+    check_inventory: tool({
+      description: "Check what Bilbo carries: objects, weapons, tools, food, with quantity, condition and where he got them. Bilbo can only use items from his inventory.",
+      inputSchema: z.object({
+        item: z.string().optional().describe("Item to look for, like 'sword', 'rope', 'ring'; omit to list everything")
+      }),
+      execute: async ({ item }: any) => {
+        broadcastLog(`🎒 AI is checking the inventory${item ? ` for: "${item}"` : ''}`);
+        if (item) {
+          const carried = findItem(inventory, item);
+          return carried ? formatInventory([carried]) : `Bilbo does not carry "${item}"`;
+        }
+        return inventory.length > 0 ? formatInventory(inventory) : 'Bilbo carries nothing';
+      }
+    } as any)
+  };
+}
+
+// Memories are ranked against what Bilbo feels now; the ones he recalls stop fading from now on
+function getMemoryTools(context: GameContext, gameState: GameState) {
+  return {
+    search_memory: tool({
+      description: "Search Bilbo's memories for relevant past experiences: people he met, places he visited, what he said and did. For the items he carries use check_inventory.",
+      inputSchema: z.object({
+        query: z.string().describe("Specific episode in memory, like 'I met Gandalf', 'I found ring', 'sword', 'rope', 'food', 'clothes'"),
+        limit: z.number().optional().describe("Maximum number of results to return"),
+        mode: z.enum(SEARCH_MODES).optional().describe("'keyword' for exact names and words like 'Bombur' or 'Thror's map', 'vector' for similar meaning, 'hybrid' (default) for both")
+      }),
+      execute: async ({ query, limit = 5, mode = 'hybrid' }: any) => {
+        broadcastLog(`🧠 AI is searching memory (${mode}) for: "${query}"`);
+        const memories = await context.memory.find(query, limit, undefined, { emotions: gameState.bilboState.emotions || [], mode });
+        const memoriesText = memories.length > 0 ?
+          memories.map((m: any) => `${m.time}: ${m.content}`).join('\n') :
+          'No relevant memories found';
+
+        if (memories.length > 0) {
+          await appendPromptLog(context, `RELEVANT MEMORIES:\n${memoriesText}\n\n`);
+          await context.memory.update(memories.map(m => m.id), { reinforcedAt: formatTime(gameState.time) });
+        }
+
+        return memoriesText;
+      }
+    } as any)
+  };
+}
+
+// ========================
+// CORE GAME LOGIC
+// ========================
+
+// Validate a raw LLM answer against the response contract and, given the state before the turn,
+// against the calendar, what Bilbo carries and where he can travel
+export function validateGameResponse(responseText: string, gameState?: GameState, geography?: Geography): { success: true, data: GameResponse } | { success: false, issues: string[] } {
+  if (!responseText) {
+    return { success: false, issues: ['response is empty'] };
+  }
+
+  let rawResponse: any;
+  try {
+    rawResponse = parseGameResponse(responseText);
+  } catch (error: any) {
+    return { success: false, issues: [`response is not valid JSON: ${error.message}`] };
+  }
+
+  const result = gameResponseSchema.safeParse(rawResponse);
+  if (!result.success) {
+    return { success: false, issues: formatIssues(result.error) };
+  }
+
+  const stateIssues = gameState ? [
+    ...checkTime(gameState.time, result.data.newTime),
+    ...checkInventoryChanges(gameState.bilboState.inventory || [], result.data),
+    ...(geography ? checkTravel(geography, gameState.location, gameState.time, result.data) : [])
+  ] : [];
+  if (stateIssues.length > 0) {
+    return { success: false, issues: stateIssues };
+  }
+  return { success: true, data: result.data };
+}
+
+function countTokens(usage: any): number {
+  return usage.totalTokens || (usage.inputTokens || 0) + (usage.outputTokens || 0) || (usage.promptTokens || 0) + (usage.completionTokens || 0);
+}
+
+// Run one model call, forwarding narrative text and tool progress while the model is writing
+async function streamModelResponse(options: any, onEvent?: (event: TurnStreamEvent) => void): Promise<{ responseText: string, usage: any }> {
+  const result = streamText(options);
+
+  let stepText = '';
+  let lastPartial = { reaction: '', worldResponse: '' };
+
+  for await (const part of result.fullStream as AsyncIterable<any>) {
+    switch (part.type) {
+      case 'start-step':
+        // Only the final step carries the JSON answer
+        stepText = '';
+        break;
+      case 'text-delta':
+        stepText += part.text;
+        if (onEvent) {
+          const partial = await extractPartialNarrative(stepText);
+          if (partial.reaction !== lastPartial.reaction || partial.worldResponse !== lastPartial.worldResponse) {
+            lastPartial = partial;
+            onEvent({ type: 'partial', ...partial });
+          }
+        }
+        break;
+      case 'tool-call':
+        onEvent?.({ type: 'tool', status: 'call', toolName: part.toolName, input: part.input });
+        break;
+      case 'tool-result':
+        onEvent?.({ type: 'tool', status: 'result', toolName: part.toolName });
+        break;
+      case 'error':
+        throw part.error instanceof Error ? part.error : new Error(String(part.error));
+    }
+  }
+
+  return { responseText: await result.text, usage: await result.totalUsage };
+}
+
+export async function processGameAction(
+  context: GameContext,
+  gameState: GameState,
+  action: string,
+  language: string = 'ru',
+  onEvent?: (event: TurnStreamEvent) => void
+): Promise<ApiResponse> {
+  try {
+    // Build prompt from templates
+    const { rulesContent, dynamicContent } = await buildPrompt(gameState, action, language, context.memory);
+
+    // Log prompt to file
+    const timestamp = new Date().toISOString();
+    const logEntry = `\n=== ${timestamp} ===\nRULES:\n${rulesContent}\n\nDYNAMIC CONTENT:\n${dynamicContent}\n\n`;
+    await appendPromptLog(context, logEntry);
+
+    // Check if we have enough memories to justify search function
+    const hasEnoughMemories = await context.memory.count() > MAX_MEMORY_SEARCH_DEPTH;
+    const inventory = gameState.bilboState.inventory || [];
+    const geography = await loadGeography();
+
+    // Call LLM using Vercel AI SDK
+    let { responseText, usage } = await streamModelResponse({
+      model: context.languageModel,
+      system: rulesContent,
+      prompt: dynamicContent,
+      tools: {
+        ...getInventoryTools(inventory),
+        ...(hasEnoughMemories ? getMemoryTools(context, gameState) : {})
+      },
+      stopWhen: stepCountIs(MAX_MEMORY_SEARCH_DEPTH),
+      onStepFinish: ({ toolResults }: any) => {
+        if (toolResults && toolResults.length > 0) {
+          broadcastLog(`🛠️ Tool execution finished: ${toolResults.map((r: any) => r.toolName).join(', ')}`);
+        }
+      }
+    }, onEvent);
+    let totalTokens = countTokens(usage);
+
+    // Log AI response to file
+    await appendPromptLog(context, `AI RESPONSE:\n${responseText}\n\n`);
+
+    // Send validation errors back to the model until the answer matches the contract
+    let validation = validateGameResponse(responseText, gameState, geography);
+    for (let attempt = 1; !validation.success && attempt <= MAX_RESPONSE_REPAIR_ATTEMPTS; attempt++) {
+      broadcastLog(`⚠️ Invalid LLM response, asking for a correction (${attempt}/${MAX_RESPONSE_REPAIR_ATTEMPTS}): ${validation.issues.join('; ')}`);
+
+      ({ responseText, usage } = await streamModelResponse({
+        model: context.languageModel,
+        system: rulesContent,
+        messages: [
+          { role: 'user', content: dynamicContent },
+          { role: 'assistant', content: responseText || '(empty response)' },
+          { role: 'user', content: buildRepairPrompt(validation.issues) }
+        ]
+      }, onEvent));
+      totalTokens += countTokens(usage);
+
+      await appendPromptLog(context, `AI RESPONSE (correction ${attempt}):\n${responseText}\n\n`);
+      validation = validateGameResponse(responseText, gameState, geography);
+    }
+
+    if (!validation.success) {
+      throw new GameResponseError(validation.issues);
+    }
+
+    const parsedResponse = validation.data;
+
+    // Log AI thinking to console only
+    if (parsedResponse.ai_thinking) {
+      broadcastLog('🤖 AI thinking: ' + (parsedResponse.ai_thinking || ''));
+    }
+
+    // Save memory if important enough
+    if (parsedResponse.importance >= 0.1) {
+      const location = `${gameState.location.region}, ${gameState.location.settlement}, ${gameState.location.place}`;
+      const gameTime = formatTime(gameState.time);
+
+      await context.memory.save({
+        content: parsedResponse.memory,
+        importance: parsedResponse.importance,
+        emotions: parsedResponse.newEmotions.join(', '),
+        time: gameTime,
+        location: location
+      });
+    } else {
+      broadcastLog(`🧠 Memory not saved - importance too low: ${parsedResponse.importance}`);
+    }
+
+    // Place names and dates are written the way the game writes them
+    const newLocation = parsedResponse.newLocation ? geography.normalize(parsedResponse.newLocation, language) : gameState.location;
+    const newTime = normalizeTime(parsedResponse.newTime, language, gameState.time);
+    const elapsed = elapsedHours(gameState.time, newTime);
+    if (elapsed !== null) {
+      broadcastLog(`⏳ ${formatDuration(elapsed)} passed`);
+    }
+
+    // Beats of the book this turn lived through, went past or changed
+    const plotData = await loadPlot();
+    const plot = advancePlot(plotData, gameState.plot || [], geography, gameState.location, newLocation, newTime, parsedResponse);
+    for (const entry of plot.slice((gameState.plot || []).length)) {
+      const beat = plotData.beats.find(candidate => candidate.id === entry.beat)!;
+      broadcastLog(`📖 Chapter ${beat.chapter}, ${beatTitle(beat, 'en')}: ${entry.status}`);
+    }
+
+    // Update history with scene description, bilbo reaction and world response
+    const updatedHistory = [...gameState.history];
+
+    // Add scene description before everything
+    if (parsedResponse.reaction) {
+
+      // Add Bilbo's reaction
+      updatedHistory.push({
+        content: parsedResponse.reaction,
+        type: 'bilbo',
+        description: parsedResponse.newEmotions.join(', '),
+        location: newLocation,
+        time: newTime
+      });
+
+      // Add World response
+      updatedHistory.push({
+        content: parsedResponse.worldResponse,
+        type: 'world' as const,
+        description: '',
+        location: newLocation,
+        time: newTime
+      });
+    }
+
+    // New items remember where and when Bilbo got them
+    const acquiredAt = `${newLocation.place}, ${newTime.day} ${newTime.month} ${newTime.year}`;
+
+    // Build response
+    return {
+      reaction: parsedResponse.reaction,
+      worldResponse: parsedResponse.worldResponse,
+      usage: { total: totalTokens },
+      elapsedHours: elapsed,
+      gameState: {
+        bilboState: {
+          character: parsedResponse.newCharacter,
+          characterEvolution: parsedResponse.newCharacterEvolution,
+          health: parsedResponse.newHealth,
+          tasks: parsedResponse.newTask,
+          plans: parsedResponse.newPlans,
+          thoughts: parsedResponse.newThoughts,
+          emotions: parsedResponse.newEmotions,
+          inventory: applyInventoryChanges(inventory, parsedResponse, acquiredAt)
+        },
+        location: newLocation,
+        time: newTime,
+        environment: parsedResponse.newEnvironment,
+        event: parsedResponse.worldResponse,
+        characters: applyCharacterUpdates(gameState.characters || [], parsedResponse, newLocation, newTime),
+        plot,
+        history: updatedHistory
+      }
+    };
+  } catch (error) {
+    broadcastLog(`❌ Error in processGameAction: ${error instanceof Error ? error.message : String(error)}`);
+    throw error;
+  }
+}
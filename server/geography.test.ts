@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { checkTravel, describeRoutes, loadGeography } from './geography';
+import { gameResponseSchema } from './responseSchema';
+import { sampleResponse } from './testUtils';
+import type { Location, Time } from './types';
+
+const bagEnd: Location = { region: 'The Shire', settlement: 'Hobbiton', place: 'Bag End' };
+const morning: Time = { day: 22, month: 'September', year: 2941, era: 'Third Age', time: '8:00' };
+
+const travelTo = (newLocation: Location, newTime: Partial<Time>) =>
+  gameResponseSchema.parse(sampleResponse({ newLocation, newTime: { ...morning, ...newTime } }));
+
+describe('geography', () => {
+  it('recognizes places by any of their names and writes them in the game language', async () => {
+    const geography = await loadGeography();
+
+    expect(geography.normalize({ region: 'Wilderland', settlement: '', place: 'Раздол' }, 'en'))
+      .toEqual({ region: 'Eriador', settlement: 'Rivendell', place: 'Rivendell' });
+    expect(geography.normalize({ region: 'Shire', settlement: 'bywater', place: 'the green dragon' }, 'ru'))
+      .toEqual({ region: 'Шир', settlement: 'Байуотер', place: 'Зелёный Дракон' });
+  });
+
+  it('keeps new minor places inside known settlements', async () => {
+    const geography = await loadGeography();
+
+    expect(geography.normalize({ region: 'The Shire', settlement: 'Hobbiton', place: 'Old mill by the pond' }, 'es'))
+      .toEqual({ region: 'La Comarca', settlement: 'Hobbiton', place: 'Old mill by the pond' });
+  });
+
+  it('finds the shortest route between settlements', async () => {
+    const geography = await loadGeography();
+
+    const route = geography.route('hobbiton', 'rivendell');
+
+    expect(route?.path).toEqual(['bywater', 'bree', 'lone-lands', 'last-bridge', 'trollshaws', 'ford-of-bruinen', 'rivendell']);
+    expect(route?.hours).toBe(279);
+  });
+
+  it('lists the roads out of the current settlement', async () => {
+    const geography = await loadGeography();
+
+    expect(describeRoutes(geography, bagEnd, 'en')).toBe('Bywater (1 hour); Tuckborough (8 hours)');
+    expect(describeRoutes(geography, bagEnd, 'ru')).toBe('Байуотер (1 час); Тукборо (8 часов)');
+  });
+});
+
+describe('checkTravel', () => {
+  it('rejects journeys faster than the road allows', async () => {
+    const geography = await loadGeography();
+    const rivendell = { region: 'Eriador', settlement: 'Rivendell', place: 'The Last Homely House' };
+
+    const issues = checkTravel(geography, bagEnd, morning, travelTo(rivendell, { time: '8:10' }));
+
+    expect(issues).toEqual([expect.stringContaining('Rivendell is about 12 days of travel from Hobbiton, but newTime only moves 10 minutes forward')]);
+    expect(issues[0]).toContain('the next stop is Bywater, 1 hour away');
+  });
+
+  it('accepts journeys that take long enough, and moves within a settlement', async () => {
+    const geography = await loadGeography();
+    const bree = { region: 'Bree-land', settlement: 'Bree', place: 'The Prancing Pony' };
+
+    expect(checkTravel(geography, bagEnd, morning, travelTo(bree, { day: 26 }))).toEqual([]);
+    expect(checkTravel(geography, bagEnd, morning, travelTo({ ...bagEnd, place: 'garden' }, { time: '8:05' }))).toEqual([]);
+  });
+
+  it('accepts places off the map within their region, and moves beyond the known regions', async () => {
+    const geography = await loadGeography();
+    const brandyHall = { region: 'Shire', settlement: 'Buckland', place: 'Brandy Hall' };
+
+    expect(checkTravel(geography, bagEnd, morning, travelTo(brandyHall, { time: '8:10' }))).toEqual([]);
+    expect(geography.normalize(brandyHall, 'en')).toEqual({ ...brandyHall, region: 'The Shire' });
+
+    const lostRoad = { region: 'Far Harad', settlement: 'Umbar', place: 'Harbour' };
+    expect(checkTravel(geography, lostRoad, morning, travelTo({ ...lostRoad, place: 'Market' }, { time: '8:05' }))).toEqual([]);
+    expect(checkTravel(geography, brandyHall, morning, travelTo(bagEnd, { time: '8:05' }))).toEqual([]);
+  });
+
+  it('times journeys to and from places off the map by the nearest settlement of their region', async () => {
+    const geography = await loadGeography();
+    const cave = { region: 'Misty Mountains', settlement: 'Some cave', place: 'Entrance' };
+    const hollow = { region: 'The Shire', settlement: 'Nowhere Hollow', place: 'Hollow' };
+    const rivendell = { region: 'Eriador', settlement: 'Rivendell', place: 'The Last Homely House' };
+
+    const toCave = checkTravel(geography, bagEnd, morning, travelTo(cave, { time: '8:10' }));
+    expect(toCave).toEqual([expect.stringContaining('"Some cave" is at least')]);
+    expect(toCave[0]).toContain('the next stop is Bywater');
+
+    expect(checkTravel(geography, bagEnd, morning, travelTo(hollow, { time: '8:10' }))).toEqual([]);
+    const fromHollow = checkTravel(geography, hollow, morning, travelTo(rivendell, { time: '8:10' }));
+    expect(fromHollow).toEqual([expect.stringContaining('Rivendell is at least')]);
+    expect(fromHollow[0]).toContain('from "Nowhere Hollow"');
+
+    expect(checkTravel(geography, hollow, morning, travelTo(rivendell, { month: 'October', day: 22 }))).toEqual([]);
+  });
+
+  it('asks for a known place when the model invents a region', async () => {
+    const geography = await loadGeography();
+
+    const issues = checkTravel(geography, bagEnd, morning, travelTo({ region: 'Sunlands', settlement: 'Mushroomville', place: 'Farm' }, { time: '9:00' }));
+
+    expect(issues).toEqual([expect.stringContaining('"Mushroomville" is not a known settlement or region of Middle-earth; use a known region or settlement (roads from here lead to Bywater, Tuckborough)')]);
+  });
+});
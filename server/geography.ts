@@ -0,0 +1,262 @@
+import path from 'path';
+import { fileURLToPath } from 'url';
+import fs from 'fs/promises';
+import { elapsedHours, formatDuration } from './calendar';
+import type { GameResponse } from './responseSchema';
+import type { Location, Time } from './types';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// ========================
+// GEOGRAPHY
+// ========================
+
+const GEOGRAPHY_FILE = path.join(__dirname, 'data/middle-earth.json');
+
+// A pony ride or an eagle can beat the usual travel time, but not by more than this
+export const MIN_TRAVEL_FRACTION = 0.25;
+
+// Names by language; the first one is how the game writes it, the rest are aliases
+type Names = Record<string, string[]>;
+
+// Regions group settlements; routes connect settlements (wilderness areas count as settlements).
+// `x` and `y` place a settlement on a 1000 x 300 schematic map, west to east.
+export interface GeographyData {
+  regions: Record<string, Names>;
+  settlements: Record<string, { x: number; y: number; region: string; names: Names; places: Record<string, Names> }>;
+  routes: Array<[string, string, number]>;
+}
+
+// A location matched to the graph; `place` is null for minor places inside a known settlement
+export interface KnownLocation {
+  settlement: string;
+  place: string | null;
+}
+
+// `path` lists the settlements passed after the start, ending with `to`
+export interface Route {
+  to: string;
+  hours: number;
+  path: string[];
+}
+
+// The map as the browser draws it, with names in one language
+export interface MapView {
+  settlements: Array<{ id: string; name: string; region: string; x: number; y: number }>;
+  routes: Array<{ from: string; to: string; hours: number }>;
+}
+
+export interface Geography {
+  resolve(location: Location): KnownLocation | null;
+  resolveRegion(name: string): string | null;
+  regionOf(settlement: string): string;
+  settlementsIn(region: string): string[];
+  normalize(location: Location, language: string): Location;
+  route(from: string, to: string): Route | null;
+  routesFrom(settlement: string): Route[];
+  settlementName(settlement: string, language: string): string;
+  map(language: string): MapView;
+}
+
+// "The Prancing Pony", "«Гарцующий пони»" and "prancing-pony" are the same place
+const nameKey = (name: string) => name
+  .toLowerCase()
+  .replace(/ё/g, 'е')
+  .replace(/[«»"'’]/g, '')
+  .replace(/^the\s+/, '')
+  .replace(/[\s-]+/g, ' ')
+  .trim();
+
+const nameIn = (names: Names, language: string) => (names[language] || names.en)[0];
+
+export function createGeography(data: GeographyData): Geography {
+  const regionsByName = new Map<string, string>();
+  const settlementsByName = new Map<string, string>();
+  const placesByName = new Map<string, KnownLocation>();
+  const neighbours = new Map<string, Array<{ to: string, hours: number }>>();
+
+  for (const [id, names] of Object.entries(data.regions)) {
+    for (const name of Object.values(names).flat()) {
+      regionsByName.set(nameKey(name), id);
+    }
+  }
+
+  for (const [id, settlement] of Object.entries(data.settlements)) {
+    neighbours.set(id, []);
+    for (const name of Object.values(settlement.names).flat()) {
+      settlementsByName.set(nameKey(name), id);
+    }
+    for (const [placeId, names] of Object.entries(settlement.places)) {
+      for (const name of Object.values(names).flat()) {
+        placesByName.set(nameKey(name), { settlement: id, place: placeId });
+      }
+    }
+  }
+
+  for (const [from, to, hours] of data.routes) {
+    neighbours.get(from)!.push({ to, hours });
+    neighbours.get(to)!.push({ to: from, hours });
+  }
+
+  // The settlement field decides; otherwise a known place, or a wilderness area written as the place or region
+  function resolve(location: Location): KnownLocation | null {
+    const settlement = settlementsByName.get(nameKey(location.settlement));
+    if (settlement) {
+      const place = placesByName.get(nameKey(location.place));
+      return { settlement, place: place?.settlement === settlement ? place.place : null };
+    }
+
+    const place = placesByName.get(nameKey(location.place));
+    if (place) return place;
+
+    const area = settlementsByName.get(nameKey(location.place)) || settlementsByName.get(nameKey(location.region));
+    return area ? { settlement: area, place: null } : null;
+  }
+
+  // Known names are written the way the game writes them; minor places are kept as they are
+  function normalize(location: Location, language: string): Location {
+    const known = resolve(location);
+    if (!known) {
+      const region = regionsByName.get(nameKey(location.region));
+      return region ? { ...location, region: nameIn(data.regions[region], language) } : location;
+    }
+
+    const settlement = data.settlements[known.settlement];
+    const settlementName = nameIn(settlement.names, language);
+    const placeIsSettlement = !location.place.trim() || settlementsByName.get(nameKey(location.place)) === known.settlement;
+    return {
+      region: nameIn(data.regions[settlement.region], language),
+      settlement: settlementName,
+      place: known.place ? nameIn(settlement.places[known.place], language) : placeIsSettlement ? settlementName : location.place.trim()
+    };
+  }
+
+  // Shortest route by travel time
+  function route(from: string, to: string): Route | null {
+    const hours = new Map<string, number>([[from, 0]]);
+    const previous = new Map<string, string>();
+    const pending = new Set(neighbours.keys());
+
+    while (pending.size > 0) {
+      let current: string | null = null;
+      for (const id of pending) {
+        if (hours.has(id) && (current === null || hours.get(id)! < hours.get(current)!)) current = id;
+      }
+      if (current === null || current === to) break;
+      pending.delete(current);
+
+      for (const next of neighbours.get(current) || []) {
+        const total = hours.get(current)! + next.hours;
+        if (!hours.has(next.to) || total < hours.get(next.to)!) {
+          hours.set(next.to, total);
+          previous.set(next.to, current);
+        }
+      }
+    }
+
+    if (!hours.has(to)) return null;
+
+    const steps: string[] = [];
+    for (let id = to; id !== from; id = previous.get(id)!) steps.unshift(id);
+    return { to, hours: hours.get(to)!, path: steps };
+  }
+
+  return {
+    resolve,
+    resolveRegion: (name: string) => regionsByName.get(nameKey(name)) ?? null,
+    regionOf: (settlement: string) => data.settlements[settlement].region,
+    settlementsIn: (region: string) => Object.keys(data.settlements).filter(id => data.settlements[id].region === region),
+    normalize,
+    route,
+    routesFrom: (settlement: string) => (neighbours.get(settlement) || []).map(next => ({ ...next, path: [next.to] })),
+    settlementName: (settlement: string, language: string) => nameIn(data.settlements[settlement].names, language),
+    map: (language: string) => ({
+      settlements: Object.entries(data.settlements).map(([id, settlement]) => ({
+        id,
+        name: nameIn(settlement.names, language),
+        region: nameIn(data.regions[settlement.region], language),
+        x: settlement.x,
+        y: settlement.y
+      })),
+      routes: data.routes.map(([from, to, hours]) => ({ from, to, hours }))
+    })
+  };
+}
+
+let geography: Promise<Geography> | null = null;
+
+// The map is read once and shared by every session
+export function loadGeography(): Promise<Geography> {
+  if (!geography) {
+    geography = fs.readFile(GEOGRAPHY_FILE, 'utf8').then(text => createGeography(JSON.parse(text)));
+  }
+  return geography;
+}
+
+// ========================
+// TRAVEL
+// ========================
+
+// Roads leading out of the current settlement, for the prompt
+export function describeRoutes(geography: Geography, location: Location, language: string): string {
+  const known = geography.resolve(location);
+  if (!known) return '';
+
+  return geography.routesFrom(known.settlement)
+    .map(next => `${geography.settlementName(next.to, language)} (${formatDuration(next.hours, language)})`)
+    .join('; ');
+}
+
+// Where a location can be on the map: its settlement, or any settlement of the known region around a place off the map
+function mapPosition(geography: Geography, location: Location, known: KnownLocation | null): { settlements: string[], region: string | null } {
+  if (known) return { settlements: [known.settlement], region: geography.regionOf(known.settlement) };
+  const region = geography.resolveRegion(location.region);
+  return { settlements: region ? geography.settlementsIn(region) : [], region };
+}
+
+// Bilbo can only go where the map leads, and no faster than the road allows.
+// A place off the map counts as anywhere in its region, so the journey takes at least the shortest road to or from that region;
+// only moves within one region, or beyond the known regions altogether, go unchecked.
+export function checkTravel(geography: Geography, from: Location, fromTime: Time, response: GameResponse): string[] {
+  if (!response.newLocation) return [];
+
+  const origin = geography.resolve(from);
+  const target = geography.resolve(response.newLocation);
+  const start = mapPosition(geography, from, origin);
+  const end = mapPosition(geography, response.newLocation, target);
+
+  if (end.settlements.length === 0) {
+    if (start.settlements.length === 0) return [];
+    const nearby = origin ? geography.routesFrom(origin.settlement).map(next => geography.settlementName(next.to, 'en')) : [];
+    const name = response.newLocation.settlement || response.newLocation.place;
+    return [
+      `newLocation: "${name}" is not a known settlement or region of Middle-earth; use a known region or settlement${nearby.length > 0 ? ` (roads from here lead to ${nearby.join(', ')})` : ''} and put new minor places into "place"`
+    ];
+  }
+
+  if (start.settlements.length === 0) return [];
+  if (origin && target ? origin.settlement === target.settlement : start.region === end.region) return [];
+
+  let route: (Route & { from: string }) | null = null;
+  for (const fromSettlement of start.settlements) {
+    for (const toSettlement of end.settlements) {
+      const candidate = geography.route(fromSettlement, toSettlement);
+      if (candidate && (!route || candidate.hours < route.hours)) route = { ...candidate, from: fromSettlement };
+    }
+  }
+
+  const elapsed = elapsedHours(fromTime, response.newTime);
+  if (!route || elapsed === null || elapsed >= route.hours * MIN_TRAVEL_FRACTION) return [];
+
+  const placeName = (location: Location, known: KnownLocation | null) =>
+    known ? geography.settlementName(known.settlement, 'en') : `"${location.settlement || location.place}"`;
+  const nextStop = geography.route(route.from, route.path[0])!;
+  return [
+    `newLocation: ${placeName(response.newLocation, target)} is ${origin && target ? 'about' : 'at least'} ${formatDuration(route.hours)} of travel from ${placeName(from, origin)}, ` +
+    `but newTime only moves ${formatDuration(Math.max(elapsed, 0))} forward; advance newTime to match the journey or stop on the way ` +
+    (origin
+      ? `(the next stop is ${geography.settlementName(nextStop.to, 'en')}, ${formatDuration(nextStop.hours)} away)`
+      : `(the road leads through ${geography.settlementName(route.from, 'en')})`)
+  ];
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { applyInventoryChanges, checkInventoryChanges } from './inventory';
+import { gameResponseSchema } from './responseSchema';
+import { sampleResponse } from './testUtils';
+import type { InventoryItem } from './types';
+
+const inventory: InventoryItem[] = [
+  { item: 'apple', quantity: 3, condition: 'ripe', acquired: 'Bag End' },
+  { item: 'rope', quantity: 1, condition: 'coiled', acquired: 'Bree' }
+];
+
+const changes = (overrides: Record<string, any>) => gameResponseSchema.parse(sampleResponse(overrides));
+
+describe('checkInventoryChanges', () => {
+  it('accepts changes to items Bilbo carries', () => {
+    expect(checkInventoryChanges(inventory, changes({ itemsUsed: [{ item: 'Rope' }], itemsLost: [{ item: 'apple', quantity: 3 }] }))).toEqual([]);
+  });
+
+  it('rejects items Bilbo does not carry or does not have enough of', () => {
+    const issues = checkInventoryChanges(inventory, changes({ itemsUsed: [{ item: 'sword' }], itemsLost: [{ item: 'apple', quantity: 4 }] }));
+
+    expect(issues).toEqual([
+      expect.stringMatching(/^itemsUsed\.0\.item: Bilbo does not carry "sword"/),
+      'itemsLost.0.quantity: Bilbo carries only 3 of "apple"'
+    ]);
+  });
+
+  it('accepts items picked up and used or lost in the same turn', () => {
+    const response = changes({
+      itemsGained: [{ item: 'lantern', quantity: 1, condition: 'lit' }, { item: 'apple', quantity: 1, condition: 'ripe' }],
+      itemsUsed: [{ item: 'Lantern', condition: 'smoking' }],
+      itemsLost: [{ item: 'apple', quantity: 4 }]
+    });
+
+    expect(checkInventoryChanges(inventory, response)).toEqual([]);
+    expect(applyInventoryChanges(inventory, response, 'Mirkwood')).toEqual([
+      { item: 'rope', quantity: 1, condition: 'coiled', acquired: 'Bree' },
+      { item: 'lantern', quantity: 1, condition: 'smoking', acquired: 'Mirkwood' }
+    ]);
+    expect(checkInventoryChanges([], changes({ itemsGained: [{ item: 'rope', quantity: 1, condition: 'new' }], itemsUsed: [{ item: 'rope' }] }))).toEqual([]);
+  });
+});
+
+describe('applyInventoryChanges', () => {
+  it('removes items that run out and stacks items Bilbo already has', () => {
+    const updated = applyInventoryChanges(inventory, changes({
+      itemsLost: [{ item: 'rope', quantity: 1 }],
+      itemsGained: [{ item: 'Apple', quantity: 2, condition: 'bruised' }]
+    }), 'Rivendell');
+
+    expect(updated).toEqual([{ item: 'apple', quantity: 5, condition: 'bruised', acquired: 'Bag End' }]);
+    expect(inventory[0].quantity).toBe(3);
+  });
+});
@@ -0,0 +1,74 @@
+import type { GameResponse } from './responseSchema';
+import type { InventoryItem } from './types';
+
+// ========================
+// INVENTORY
+// ========================
+
+// Item names are matched loosely: "Sting" and "sting " are the same sword
+const sameItem = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export function findItem(inventory: InventoryItem[], name: string): InventoryItem | undefined {
+  return inventory.find(entry => sameItem(entry.item, name));
+}
+
+export function formatInventory(inventory: InventoryItem[]): string {
+  return inventory
+    .map(entry => `${entry.item} x${entry.quantity} (${entry.condition}, acquired: ${entry.acquired})`)
+    .join('; ');
+}
+
+// What Bilbo carries once the items gained this turn are in his pockets
+function withGained(inventory: InventoryItem[], response: GameResponse, acquired: string): InventoryItem[] {
+  const updated = inventory.map(entry => ({ ...entry }));
+  for (const gained of response.itemsGained) {
+    const carried = findItem(updated, gained.item);
+    if (carried) {
+      carried.quantity += gained.quantity;
+      carried.condition = gained.condition;
+    } else {
+      updated.push({ item: gained.item.trim(), quantity: gained.quantity, condition: gained.condition, acquired });
+    }
+  }
+  return updated;
+}
+
+// Bilbo can only use or lose what he carried at the start of the turn or picked up during it
+export function checkInventoryChanges(inventory: InventoryItem[], response: GameResponse): string[] {
+  const available = withGained(inventory, response, '');
+  const issues: string[] = [];
+
+  response.itemsUsed.forEach((used, index) => {
+    if (!findItem(available, used.item)) {
+      issues.push(`itemsUsed.${index}.item: Bilbo does not carry "${used.item}"; add it to itemsGained if he picked it up this turn, otherwise rewrite the scene without it`);
+    }
+  });
+
+  response.itemsLost.forEach((lost, index) => {
+    const carried = findItem(available, lost.item);
+    if (!carried) {
+      issues.push(`itemsLost.${index}.item: Bilbo does not carry "${lost.item}"`);
+    } else if (lost.quantity > carried.quantity) {
+      issues.push(`itemsLost.${index}.quantity: Bilbo carries only ${carried.quantity} of "${carried.item}"`);
+    }
+  });
+
+  return issues;
+}
+
+// The inventory after a turn that passed checkInventoryChanges. New items remember where they were acquired;
+// they are added first, so an item picked up and used or lost in the same turn is found.
+export function applyInventoryChanges(inventory: InventoryItem[], response: GameResponse, acquired: string): InventoryItem[] {
+  let updated = withGained(inventory, response, acquired);
+
+  for (const used of response.itemsUsed) {
+    const carried = findItem(updated, used.item);
+    if (carried && used.condition) carried.condition = used.condition;
+  }
+
+  for (const lost of response.itemsLost) {
+    const carried = findItem(updated, lost.item);
+    if (carried) carried.quantity -= lost.quantity;
+  }
+  return updated.filter(entry => entry.quantity > 0);
+}
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { loadGeography } from './geography';
+import { buildJourney } from './journey';
+import type { HistoryEntry, Location } from './types';
+
+function entry(location: Location, day: number, time: string): HistoryEntry {
+  return { content: '', type: 'world', location, time: { day, month: 'September', year: 2941, era: 'Third Age', time } };
+}
+
+const bagEnd = { region: 'The Shire', settlement: 'Hobbiton', place: 'Bag End' };
+const hill = { ...bagEnd, place: 'The Hill' };
+const greenDragon = { region: 'The Shire', settlement: 'Bywater', place: 'The Green Dragon' };
+const camp = { region: 'Wilds', settlement: '', place: 'Camp by the road' };
+
+describe('buildJourney', () => {
+  it('groups consecutive entries by settlement and measures the days spent there', async () => {
+    const geography = await loadGeography();
+    const history = [
+      entry(bagEnd, 22, '8:00'),
+      entry(hill, 22, '20:00'),
+      entry(greenDragon, 24, '8:00'),
+      entry(camp, 25, '20:00'),
+      entry(camp, 26, '8:00')
+    ];
+
+    const stops = buildJourney(history, geography, 'en');
+
+    expect(stops.map(stop => [stop.settlement, stop.name, stop.firstEntry, stop.lastEntry, stop.days])).toEqual([
+      ['hobbiton', 'Hobbiton', 0, 1, 2],
+      ['bywater', 'Bywater', 2, 2, 1.5],
+      [null, 'Camp by the road', 3, 4, 0.5]
+    ]);
+    expect(stops[0].places).toEqual(['Bag End', 'The Hill']);
+  });
+
+  it('cannot measure stays when the dates are unreadable', async () => {
+    const geography = await loadGeography();
+    const history = [{ ...entry(bagEnd, 22, '8:00'), time: { day: 1, month: 'Smaugtide', year: 1341, era: 'Shire Reckoning', time: '8:00' } }];
+
+    expect(buildJourney(history, geography, 'en')[0].days).toBeNull();
+  });
+});
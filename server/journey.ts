@@ -0,0 +1,56 @@
+import { elapsedHours } from './calendar';
+import type { Geography } from './geography';
+import type { HistoryEntry, Time } from './types';
+
+// ========================
+// JOURNEY
+// ========================
+
+// A stretch of the story spent in one settlement (or one unmapped place)
+export interface JourneyStop {
+  settlement: string | null; // map id, null for places the map does not know
+  name: string;
+  places: string[];
+  firstEntry: number;
+  lastEntry: number;
+  arrived: Time;
+  days: number | null; // in-game days until Bilbo left, null when the dates cannot be read
+}
+
+// Consecutive history entries in the same settlement make one stop
+export function buildJourney(history: HistoryEntry[], geography: Geography, language: string): JourneyStop[] {
+  const stops: Array<JourneyStop & { key: string, left: Time }> = [];
+
+  history.forEach((entry, index) => {
+    const known = geography.resolve(entry.location);
+    const key = known ? known.settlement : `${entry.location.region}/${entry.location.settlement}/${entry.location.place}`;
+    const last = stops[stops.length - 1];
+
+    if (last && last.key === key) {
+      last.lastEntry = index;
+      last.left = entry.time;
+      if (!last.places.includes(entry.location.place)) last.places.push(entry.location.place);
+      return;
+    }
+
+    // Leaving a place happens when Bilbo arrives at the next one
+    if (last) last.left = entry.time;
+
+    stops.push({
+      key,
+      settlement: known ? known.settlement : null,
+      name: known ? geography.settlementName(known.settlement, language) : (entry.location.settlement || entry.location.place),
+      places: [entry.location.place],
+      firstEntry: index,
+      lastEntry: index,
+      arrived: entry.time,
+      left: entry.time,
+      days: null
+    });
+  });
+
+  return stops.map(({ key, left, ...stop }) => {
+    const hours = elapsedHours(stop.arrived, left);
+    return { ...stop, days: hours === null ? null : Math.max(hours, 0) / 24 };
+  });
+}
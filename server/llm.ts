@@ -0,0 +1,122 @@
+import type { LanguageModel } from 'ai';
+import { createOllama } from 'ai-sdk-ollama';
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
+import { createMockLanguageModel, loadFixtures, withRecording, MockMode } from './mockModel';
+
+// ========================
+// TYPES & INTERFACES
+// ========================
+
+// 'llamacpp' and 'vllm' are OpenAI-compatible servers with their own default ports,
+// 'mock' answers from a fixture file without any server
+export type LlmProvider = 'ollama' | 'openai-compatible' | 'llamacpp' | 'vllm' | 'mock';
+
+export interface LlmConfig {
+  provider: LlmProvider;
+  model: string;
+  baseUrl?: string;
+  apiKey?: string;
+  // mock provider: fixture file and how to read it
+  fixtures?: string;
+  mode?: MockMode;
+  // any other provider: record every model call into this fixture file
+  record?: string;
+}
+
+// ========================
+// PROVIDERS
+// ========================
+
+const DEFAULT_BASE_URLS: Record<LlmProvider, string> = {
+  'ollama': 'http://localhost:11434',
+  'openai-compatible': 'http://localhost:8080/v1',
+  'llamacpp': 'http://localhost:8080/v1',
+  'vllm': 'http://localhost:8000/v1',
+  'mock': ''
+};
+
+function isOpenAICompatible(provider: LlmProvider): boolean {
+  return provider === 'openai-compatible' || provider === 'llamacpp' || provider === 'vllm';
+}
+
+function resolveBaseUrl(config: LlmConfig): string {
+  const baseUrl = config.baseUrl || DEFAULT_BASE_URLS[config.provider];
+  return baseUrl.replace(/\/+$/, '');
+}
+
+function assertKnownProvider(config: LlmConfig) {
+  if (!(config.provider in DEFAULT_BASE_URLS)) {
+    throw new Error(`Unknown LLM provider "${config.provider}" in game.json (expected one of: ${Object.keys(DEFAULT_BASE_URLS).join(', ')})`);
+  }
+}
+
+// A scripted mock answers in file order, so any call besides the turns would use up their answers
+export function isScripted(config: LlmConfig): boolean {
+  return config.provider === 'mock' && (config.mode || 'script') === 'script';
+}
+
+export async function createLanguageModel(config: LlmConfig): Promise<LanguageModel> {
+  assertKnownProvider(config);
+
+  if (config.provider === 'mock') {
+    if (!config.fixtures) {
+      throw new Error('The mock LLM provider needs api.llm.fixtures in game.json');
+    }
+    const fixtures = await loadFixtures(config.fixtures);
+    return createMockLanguageModel(fixtures, config.mode || 'script', config.model);
+  }
+
+  let model: LanguageModel;
+  if (isOpenAICompatible(config.provider)) {
+    const provider = createOpenAICompatible({
+      name: config.provider,
+      baseURL: resolveBaseUrl(config),
+      apiKey: config.apiKey
+    });
+    model = provider.chatModel(config.model);
+  } else {
+    const ollamaInstance = createOllama({
+      baseURL: config.baseUrl
+    });
+    model = ollamaInstance(config.model);
+  }
+
+  return config.record ? withRecording(model, config.record) : model;
+}
+
+// Ping the provider's model listing so a wrong baseUrl fails at startup, not on the first turn
+export async function checkProviderReachable(config: LlmConfig): Promise<{ modelFound: boolean }> {
+  assertKnownProvider(config);
+
+  if (config.provider === 'mock') {
+    return { modelFound: true };
+  }
+
+  const baseUrl = resolveBaseUrl(config);
+  const url = isOpenAICompatible(config.provider)
+    ? `${baseUrl}/models`
+    : `${baseUrl.replace(/\/api$/, '')}/api/tags`;
+  const headers: Record<string, string> = {};
+  if (config.apiKey) {
+    headers['Authorization'] = `Bearer ${config.apiKey}`;
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(url, { headers, signal: AbortSignal.timeout(5000) });
+  } catch (error: any) {
+    throw new Error(`LLM provider "${config.provider}" is not reachable at ${baseUrl} (${error.cause?.message || error.message}). Check that the server is running and api.llm.baseUrl in game.json is correct.`);
+  }
+
+  if (!response.ok) {
+    throw new Error(`LLM provider "${config.provider}" at ${baseUrl} answered ${response.status} ${response.statusText}. Check api.llm.baseUrl and api.llm.apiKey in game.json.`);
+  }
+
+  // Ollama lists { models: [{ name }] }, OpenAI-compatible servers list { data: [{ id }] }
+  const body: any = await response.json().catch(() => ({}));
+  const modelNames: string[] = isOpenAICompatible(config.provider)
+    ? (body.data || []).map((m: any) => m.id)
+    : (body.models || []).map((m: any) => m.name);
+
+  return { modelFound: modelNames.includes(config.model) || modelNames.includes(`${config.model}:latest`) };
+}
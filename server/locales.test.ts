@@ -0,0 +1,109 @@
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import fs from 'fs/promises';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { checkLocales, formatLocaleReport, LOCALE_FILES } from './locales';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const SHIPPED_LOCALES = path.join(__dirname, '../public/locales');
+
+describe('checkLocales', () => {
+  let localesDir: string;
+
+  // A copy of the English locale as "en" and as "de", to break one file at a time
+  beforeEach(async () => {
+    localesDir = await fs.mkdtemp(path.join(os.tmpdir(), 'hobbit-locales-'));
+    for (const language of ['en', 'de']) {
+      await fs.mkdir(path.join(localesDir, language));
+      for (const file of LOCALE_FILES) {
+        await fs.copyFile(path.join(SHIPPED_LOCALES, 'en', file), path.join(localesDir, language, file));
+      }
+    }
+  });
+
+  afterEach(async () => {
+    await fs.rm(localesDir, { recursive: true, force: true });
+  });
+
+  const readJson = async (language: string, file: string) => JSON.parse(await fs.readFile(path.join(localesDir, language, file), 'utf8'));
+  const writeJson = (language: string, file: string, value: unknown) =>
+    fs.writeFile(path.join(localesDir, language, file), JSON.stringify(value, null, 2));
+
+  it('finds nothing wrong with the shipped languages', async () => {
+    const report = await checkLocales();
+
+    expect(report.languages).toEqual(expect.arrayContaining(['en', 'es', 'ru']));
+    expect(report.issues).toEqual([]);
+    expect(formatLocaleReport(report)).toMatch(/^Locales checked against en: es, ru.*, all complete$/);
+  });
+
+  it('reports missing and extra keys, placeholders and plural forms', async () => {
+    const common = await readJson('de', 'common.json');
+    delete common.buttons.save;
+    common.buttons.sing = 'Sing';
+    common.plot.chapter = 'Chapter {{number}}: {{title}}';
+    common.journey.days_few = '{{count}} days';
+    delete common.memory.episode_one;
+    await writeJson('de', 'common.json', common);
+
+    const { issues } = await checkLocales(localesDir);
+
+    expect(issues).toEqual([
+      'de/common.json: missing key "buttons.save"',
+      'de/common.json: missing key "memory.episode_one"',
+      'de/common.json: "plot.chapter" has {{number}}, {{title}} instead of {{chapter}}, {{title}}',
+      'de/common.json: extra key "buttons.sing"',
+      'de/common.json: extra key "journey.days_few"'
+    ]);
+  });
+
+  it('checks state.json against the game state', async () => {
+    const state = await readJson('de', 'state.json');
+    delete state.bilboState.inventory;
+    state.time.day = 'twenty-second';
+    await writeJson('de', 'state.json', state);
+
+    const { issues } = await checkLocales(localesDir);
+
+    expect(issues).toHaveLength(2);
+    expect(issues[0]).toMatch(/^de\/state\.json: bilboState\.inventory: /);
+    expect(issues[1]).toMatch(/^de\/state\.json: time\.day: /);
+  });
+
+  it('compares prompt placeholders and requires the response format in rules.md', async () => {
+    const prompt = await fs.readFile(path.join(localesDir, 'de', 'prompt.md'), 'utf8');
+    await fs.writeFile(path.join(localesDir, 'de', 'prompt.md'), prompt.replace('{{health}}', '{{helth}}'));
+    const rules = await fs.readFile(path.join(localesDir, 'de', 'rules.md'), 'utf8');
+    await fs.writeFile(path.join(localesDir, 'de', 'rules.md'), rules.replace(/\n\s*"itemsUsed": .*/, ''));
+    await fs.writeFile(path.join(localesDir, 'en', 'rules.md'), 'Respond in JSON');
+
+    const { issues } = await checkLocales(localesDir);
+
+    expect(issues).toEqual([
+      'en/rules.md: no JSON response format block',
+      'de/rules.md: JSON response format block lacks "itemsUsed"',
+      'de/prompt.md: missing {{health}}',
+      'de/prompt.md: extra {{helth}}'
+    ]);
+  });
+
+  it('reports missing files and broken JSON', async () => {
+    await fs.rm(path.join(localesDir, 'de', 'rules.json'));
+    await fs.writeFile(path.join(localesDir, 'de', 'common.json'), '{ "buttons": ');
+
+    const report = await checkLocales(localesDir);
+
+    expect(report.issues).toEqual([
+      expect.stringMatching(/^de\/common\.json: not valid JSON/),
+      'de/rules.json: missing'
+    ]);
+    expect(formatLocaleReport(report)).toMatch(/^Locales checked against en: de, 2 problems:\nde\/common\.json/);
+  });
+
+  it('refuses an unknown reference locale', async () => {
+    await expect(checkLocales(localesDir, 'xx')).rejects.toThrow('Reference locale "xx" not found');
+  });
+});
@@ -0,0 +1,185 @@
+import path from 'path';
+import { fileURLToPath } from 'url';
+import fs from 'fs/promises';
+import { formatIssues, gameResponseSchema } from './responseSchema';
+import { gameStateSchema } from './saveFormat';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// ========================
+// LOCALES
+// ========================
+
+const LOCALES_DIR = path.join(__dirname, '../public/locales');
+export const REFERENCE_LOCALE = 'en';
+
+const TEXT_FILES = ['common.json', 'rules.json'];
+const TEMPLATE_FILES = ['rules.md', 'prompt.md'];
+export const LOCALE_FILES = [...TEXT_FILES, 'state.json', ...TEMPLATE_FILES];
+
+// i18next plural keys end with the language's plural category ("days_one", "days_few")
+const PLURAL_SUFFIX = /_(zero|one|two|few|many|other)$/;
+
+// Every locale compared with the reference; issues read "es/common.json: ..."
+export interface LocaleReport {
+  reference: string;
+  languages: string[];
+  issues: string[];
+}
+
+type Texts = { [key: string]: unknown };
+
+const isGroup = (value: unknown): value is Texts => value !== null && typeof value === 'object' && !Array.isArray(value);
+
+// "buttons.save" -> text, for every text in the file
+function flatten(texts: Texts, prefix = ''): Map<string, unknown> {
+  const keys = new Map<string, unknown>();
+  for (const [key, value] of Object.entries(texts)) {
+    if (isGroup(value)) {
+      for (const [nested, text] of flatten(value, `${prefix}${key}.`)) keys.set(nested, text);
+    } else {
+      keys.set(`${prefix}${key}`, value);
+    }
+  }
+  return keys;
+}
+
+const placeholders = (text: unknown) =>
+  [...new Set([...String(text).matchAll(/\{\{\s*([^{}]*?)\s*\}\}/g)].map(match => match[1].replace(/\s+/g, ' ')))].sort();
+
+// Plural keys are compared by their base name, and each language needs its own plural forms
+function compareTexts(reference: Texts, texts: Texts, language: string): string[] {
+  const referenceKeys = flatten(reference);
+  const keys = flatten(texts);
+  const pluralForms = new Intl.PluralRules(language).resolvedOptions().pluralCategories;
+  const plurals = new Set([...referenceKeys.keys()].filter(key => PLURAL_SUFFIX.test(key)).map(key => key.replace(PLURAL_SUFFIX, '')));
+
+  const expected = new Map<string, unknown>();
+  for (const [key, text] of referenceKeys) {
+    const base = key.replace(PLURAL_SUFFIX, '');
+    if (!plurals.has(base)) {
+      expected.set(key, text);
+    } else {
+      for (const form of pluralForms) expected.set(`${base}_${form}`, referenceKeys.get(`${base}_other`) ?? text);
+    }
+  }
+
+  const issues: string[] = [];
+  for (const [key, text] of expected) {
+    if (!keys.has(key)) {
+      issues.push(`missing key "${key}"`);
+      continue;
+    }
+    const wanted = placeholders(text);
+    const found = placeholders(keys.get(key));
+    if (wanted.join() !== found.join()) {
+      issues.push(`"${key}" has ${found.map(name => `{{${name}}}`).join(', ') || 'no placeholders'} instead of ${wanted.map(name => `{{${name}}}`).join(', ') || 'none'}`);
+    }
+  }
+  for (const key of keys.keys()) {
+    if (!expected.has(key)) issues.push(`extra key "${key}"`);
+  }
+  return issues;
+}
+
+// Opening tags and variables; closing tags and {{else}} only pair with them
+function templateTags(source: string): string[] {
+  return placeholders(source).filter(tag => tag !== 'else' && !tag.startsWith('/'));
+}
+
+function compareTemplates(reference: string, source: string): string[] {
+  const wanted = templateTags(reference);
+  const found = templateTags(source);
+  return [
+    ...wanted.filter(tag => !found.includes(tag)).map(tag => `missing {{${tag}}}`),
+    ...found.filter(tag => !wanted.includes(tag)).map(tag => `extra {{${tag}}}`)
+  ];
+}
+
+// The example answer the model copies: a block from a line with "{" to a line with "}", listing every response field
+function checkResponseFormat(rules: string): string[] {
+  const blocks = [...rules.matchAll(/^\{[ \t]*\n([\s\S]*?)\n\}[ \t]*$/gm)];
+  if (blocks.length === 0) return ['no JSON response format block'];
+
+  const block = blocks[blocks.length - 1][1];
+  return Object.keys(gameResponseSchema.shape)
+    .filter(field => !block.includes(`"${field}"`))
+    .map(field => `JSON response format block lacks "${field}"`);
+}
+
+async function readLocaleFile(localesDir: string, language: string, file: string): Promise<string | null> {
+  try {
+    return await fs.readFile(path.join(localesDir, language, file), 'utf8');
+  } catch {
+    return null;
+  }
+}
+
+function parseJson(source: string): { value?: unknown, error?: string } {
+  try {
+    return { value: JSON.parse(source) };
+  } catch (error: any) {
+    return { error: `not valid JSON (${error.message})` };
+  }
+}
+
+export async function checkLocales(localesDir: string = LOCALES_DIR, reference: string = REFERENCE_LOCALE): Promise<LocaleReport> {
+  const entries = await fs.readdir(localesDir, { withFileTypes: true });
+  const languages = entries.filter(entry => entry.isDirectory()).map(entry => entry.name).sort();
+  if (!languages.includes(reference)) {
+    throw new Error(`Reference locale "${reference}" not found in ${localesDir}`);
+  }
+
+  const issues: string[] = [];
+  const referenceFiles = new Map<string, string | null>();
+  for (const file of LOCALE_FILES) {
+    referenceFiles.set(file, await readLocaleFile(localesDir, reference, file));
+  }
+
+  // The reference is checked on its own first, then every other locale against it
+  for (const language of [reference, ...languages.filter(language => language !== reference)]) {
+    for (const file of LOCALE_FILES) {
+      const report = (message: string) => issues.push(`${language}/${file}: ${message}`);
+      const source = language === reference ? referenceFiles.get(file)! : await readLocaleFile(localesDir, language, file);
+      if (source === null) {
+        report('missing');
+        continue;
+      }
+      const referenceSource = referenceFiles.get(file);
+
+      if (TEXT_FILES.includes(file)) {
+        const { value, error } = parseJson(source);
+        if (error) {
+          report(error);
+        } else if (!isGroup(value)) {
+          report('must be a JSON object');
+        } else if (language !== reference && referenceSource) {
+          const { value: referenceTexts } = parseJson(referenceSource);
+          if (isGroup(referenceTexts)) compareTexts(referenceTexts, value, language).forEach(report);
+        }
+      } else if (file === 'state.json') {
+        const { value, error } = parseJson(source);
+        if (error) {
+          report(error);
+          continue;
+        }
+        const parsed = gameStateSchema.safeParse(value);
+        if (!parsed.success) formatIssues(parsed.error).forEach(report);
+      } else {
+        if (file === 'rules.md') checkResponseFormat(source).forEach(report);
+        if (language !== reference && referenceSource) compareTemplates(referenceSource, source).forEach(report);
+      }
+    }
+  }
+
+  return { reference, languages, issues };
+}
+
+export function formatLocaleReport(report: LocaleReport): string {
+  const others = report.languages.filter(language => language !== report.reference);
+  const summary = `Locales checked against ${report.reference}: ${others.join(', ') || 'no other languages'}`;
+  return report.issues.length === 0
+    ? `${summary}, all complete`
+    : `${summary}, ${report.issues.length} ${report.issues.length === 1 ? 'problem' : 'problems'}:\n${report.issues.join('\n')}`;
+}
@@ -0,0 +1,50 @@
+import type express from 'express';
+
+// ========================
+// LOG STREAMING
+// ========================
+
+const LOG_BUFFER_SIZE = 100;
+
+// Global log store for streaming
+const logBuffer: string[] = [];
+const logSubscribers: express.Response[] = [];
+
+export function broadcastLog(message: string) {
+  const now = new Date();
+  const timestamp = now.toLocaleTimeString('en-GB', { hour12: false });
+  const logMessage = `[${timestamp}] ${message}`;
+
+  console.log(logMessage);
+
+  // Add to buffer (keep last 100 entries)
+  logBuffer.push(logMessage);
+  if (logBuffer.length > LOG_BUFFER_SIZE) {
+    logBuffer.shift();
+  }
+
+  // Send to all subscribers
+  logSubscribers.forEach(res => {
+    try {
+      res.write(`data: ${JSON.stringify({ type: 'log', message: logMessage })}\n\n`);
+    } catch (error) {
+      // Remove dead connections
+      const index = logSubscribers.indexOf(res);
+      if (index > -1) logSubscribers.splice(index, 1);
+    }
+  });
+}
+
+// Replay the buffer to a new SSE client and keep it subscribed; returns the unsubscribe function
+export function subscribeToLogs(res: express.Response): () => void {
+  logBuffer.forEach(message => {
+    res.write(`data: ${JSON.stringify({ type: 'log', message })}\n\n`);
+  });
+
+  logSubscribers.push(res);
+
+  return () => {
+    const index = logSubscribers.indexOf(res);
+    if (index > -1) logSubscribers.splice(index, 1);
+  };
+}
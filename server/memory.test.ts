@@ -0,0 +1,181 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { Embedder } from './embedding';
+import { connectMemoryDatabase, createMemoryStore } from './memory';
+import { createHashEmbedder } from './testUtils';
+
+let dbPath: string;
+
+beforeEach(async () => {
+  dbPath = await fs.mkdtemp(path.join(os.tmpdir(), 'hobbit-memory-'));
+});
+
+afterEach(async () => {
+  await fs.rm(dbPath, { recursive: true, force: true });
+});
+
+function memories(count: number) {
+  return Array.from({ length: count }, (_, index) => ({
+    id: String(index),
+    content: `Memory number ${index}`,
+    time: '',
+    location: '',
+    importance: 0.5,
+    emotions: '',
+    createdAt: index
+  }));
+}
+
+async function storeWith(embed: Embedder) {
+  const store = createMemoryStore({ database: await connectMemoryDatabase(dbPath), tableName: 'memories', embed });
+  await store.initialize();
+  return store;
+}
+
+describe('initialize', () => {
+  it('adds the columns added since to tables written before them', async () => {
+    const database = await connectMemoryDatabase(dbPath);
+    const embed = createHashEmbedder();
+    await database.createTable('memories', [{ ...memories(1)[0], time: '22 September 2941, 8:00', embeddings: await embed('Memory number 0') }]);
+
+    const store = await storeWith(embed);
+    await store.save({ content: 'I found a ring in the dark', importance: 0.9, emotions: '', time: '', location: '' });
+
+    expect((await store.list()).map(record => [record.content, record.episodeId, record.reinforcedAt, record.pinned])).toEqual([
+      ['I found a ring in the dark', '', '', false],
+      ['Memory number 0', '', '22 September 2941, 8:00', false]
+    ]);
+    expect(store.embeddingStatus().recorded).toEqual({ model: 'hash-64', dimension: 64 });
+  });
+});
+
+describe('embedding model', () => {
+  it('searches by keyword only until memories from another model are re-indexed', async () => {
+    const store = await storeWith(createHashEmbedder());
+    await store.addMany(memories(3));
+
+    const switched = await storeWith(createHashEmbedder(32));
+    expect(switched.embeddingStatus()).toEqual({ model: 'hash-32', recorded: { model: 'hash-64', dimension: 64 }, stale: true });
+    expect((await switched.find('number 2', 1, 0, { mode: 'vector' })).map(result => [result.id, result.similarity])).toEqual([['2', '0.000']]);
+    await expect(switched.add({ ...memories(4)[3] })).rejects.toThrow('re-index');
+    await expect(switched.edit('1', { content: 'Memory number one' })).rejects.toThrow('re-index');
+    expect((await switched.list()).find(record => record.id === '1')!.content).toBe('Memory number 1');
+    expect(await switched.edit('1', { pinned: true })).toMatchObject({ pinned: true });
+
+    expect(await switched.reindex()).toBe(3);
+    expect(switched.embeddingStatus()).toEqual({ model: 'hash-32', recorded: { model: 'hash-32', dimension: 32 }, stale: false });
+    expect((await switched.list())[0].embeddings).toHaveLength(32);
+    expect((await switched.find('Memory number 2', 1, 0.9, { mode: 'vector' })).map(result => result.id)).toEqual(['2']);
+  });
+
+  it('treats a table from before the model was recorded as stale when its dimension differs', async () => {
+    const database = await connectMemoryDatabase(dbPath);
+    await database.createTable('memories', [{ ...memories(1)[0], embeddings: await createHashEmbedder(16)('Memory number 0') }]);
+
+    const store = await storeWith(createHashEmbedder());
+    expect(store.embeddingStatus()).toEqual({ model: 'hash-64', recorded: { model: 'unknown', dimension: 16 }, stale: true });
+  });
+});
+
+describe('edit', () => {
+  it('re-embeds corrected content so searches find the new text', async () => {
+    const store = await storeWith(createHashEmbedder());
+    await store.addMany([{ ...memories(1)[0], content: 'Bilbo owns a crossbow' }]);
+
+    const edited = await store.edit('0', { content: 'Bilbo owns a walking stick', importance: 0.2, pinned: true });
+
+    expect(edited && [edited.content, edited.importance, edited.pinned]).toEqual(['Bilbo owns a walking stick', 0.2, true]);
+    expect((await store.find('walking stick', 3, 0, { mode: 'vector' })).map(result => result.id)).toEqual(['0']);
+    expect(await store.find('crossbow', 3, 0, { mode: 'vector' })).toEqual([]);
+    expect(await store.edit('missing', { pinned: true })).toBeNull();
+  });
+});
+
+describe('remove', () => {
+  it('forgets one memory and releases the memories of a deleted episode', async () => {
+    const store = await storeWith(createHashEmbedder());
+    await store.addMany([
+      ...memories(2).map(record => ({ ...record, episodeId: 'episode' })),
+      { ...memories(3)[2], id: 'episode', sources: '0,1' }
+    ]);
+
+    expect(await store.remove('episode')).toBe(true);
+    expect(await store.remove('episode')).toBe(false);
+    expect((await store.list()).map(record => record.id)).toEqual(['1', '0']);
+  });
+});
+
+describe('addMany', () => {
+  it('embeds missing vectors in batches', async () => {
+    const hashEmbed = createHashEmbedder();
+    const batchSizes: number[] = [];
+    const embed: Embedder = Object.assign((text: string) => hashEmbed(text), {
+      batch: async (texts: string[]) => {
+        batchSizes.push(texts.length);
+        return Promise.all(texts.map(text => hashEmbed(text)));
+      }
+    });
+    const store = await storeWith(embed);
+
+    const imported = await store.addMany(memories(70));
+
+    expect(imported).toBe(70);
+    expect(batchSizes).toEqual([32, 32, 6]);
+    expect(await store.count()).toBe(70);
+  });
+
+  it('leaves the table untouched when embedding fails midway', async () => {
+    const hashEmbed = createHashEmbedder();
+    const store = await storeWith(async (text: string) => {
+      if (text.endsWith('40')) throw new Error('embedding model crashed');
+      return hashEmbed(text);
+    });
+    await store.save({ content: 'I found a ring in the dark', importance: 0.9, emotions: '', time: '', location: '' });
+
+    await expect(store.addMany(memories(50), { replace: true })).rejects.toThrow('embedding model crashed');
+
+    expect((await store.list()).map(record => record.content)).toEqual(['I found a ring in the dark']);
+  });
+
+  it('replaces existing memories when asked', async () => {
+    const store = await storeWith(createHashEmbedder());
+    await store.save({ content: 'I found a ring in the dark', importance: 0.9, emotions: '', time: '', location: '' });
+
+    await store.addMany(memories(3), { replace: true });
+
+    expect((await store.list()).map(record => record.content)).toEqual(['Memory number 2', 'Memory number 1', 'Memory number 0']);
+    expect((await store.find('Memory number 1', 1, 0.5))[0].content).toBe('Memory number 1');
+  });
+});
+
+describe('find', () => {
+  it('ranks equally similar memories by importance and emotional match', async () => {
+    const store = await storeWith(createHashEmbedder());
+    await store.addMany([
+      { ...memories(1)[0], id: 'minor', content: 'I found a ring in the dark', importance: 0.1, emotions: 'calm' },
+      { ...memories(1)[0], id: 'major', content: 'I found a ring in the dark', importance: 0.6, emotions: 'calm' },
+      { ...memories(1)[0], id: 'scary', content: 'I found a ring in the dark', importance: 0.5, emotions: 'fear' }
+    ]);
+
+    expect((await store.find('ring in the dark', 3, 0.5)).map(result => result.id)).toEqual(['major', 'scary', 'minor']);
+    const [first] = await store.find('ring in the dark', 1, 0.5, { emotions: ['fear'] });
+    expect(first.id).toBe('scary');
+    expect(first.score).toMatchObject({ importance: 0.5, recency: 1, emotion: 1 });
+  });
+
+  it('finds names by keyword that vector search ranks too low', async () => {
+    const store = await storeWith(createHashEmbedder());
+    await store.addMany([
+      { ...memories(1)[0], id: 'bombur', content: 'Bombur fell into the river' },
+      { ...memories(1)[0], id: 'boat', content: 'We crossed the enchanted river in a boat' }
+    ]);
+
+    expect(await store.find('Bombur', 3, 0.9, { mode: 'vector' })).toEqual([]);
+    expect((await store.find('Bombur', 3, 0.9, { mode: 'keyword' })).map(result => result.id)).toEqual(['bombur']);
+    const [first] = await store.find('Bombur', 3, 0.9, { mode: 'hybrid' });
+    expect(first.id).toBe('bombur');
+    expect(first.score.keyword).toBe(1);
+  });
+});
@@ -0,0 +1,569 @@
+import { broadcastLog } from './logs';
+import { embedMany, EMBEDDING_BATCH_SIZE, Embedder } from './embedding';
+import { DEFAULT_SCORING, scoreMemory, MemoryScore, ScoringConfig } from './retrieval';
+import type { MemoryRecord } from './types';
+
+// ========================
+// MEMORY INTEGRATION
+// ========================
+
+export const MEMORY_RELEVANCE_THRESHOLD = 0.5;
+
+// 'vector' finds memories by meaning, 'keyword' by the words they contain (names like "Bombur"),
+// 'hybrid' takes both and ranks them together
+export type SearchMode = 'vector' | 'keyword' | 'hybrid';
+export const SEARCH_MODES: SearchMode[] = ['vector', 'keyword', 'hybrid'];
+
+export interface SearchOptions {
+  emotions?: string[]; // what Bilbo feels now, for the emotional match
+  mode?: SearchMode;
+}
+
+export interface MemorySearchResult {
+  id: string;
+  content: string;
+  time: string;
+  location: string;
+  importance: number;
+  emotions: string;
+  createdAt: number;
+  pinned: boolean;
+  similarity: string;
+  score: MemoryScore;
+}
+
+export interface NewMemory {
+  content: string;
+  importance: number;
+  emotions: string;
+  time: string;
+  location: string;
+}
+
+// A memory as it arrives from a save, an import or a fork; fields added later default to a plain memory
+export type MemoryInput = Omit<MemoryRecord, 'embeddings' | 'episodeId' | 'sources' | 'reinforcedAt' | 'pinned'>
+  & Partial<Pick<MemoryRecord, 'embeddings' | 'episodeId' | 'sources' | 'reinforcedAt' | 'pinned'>>;
+
+// The model a table's vectors were made with, kept in the table's schema metadata
+export interface EmbeddingInfo {
+  model: string;
+  dimension: number;
+}
+
+// `recorded` is null for an empty session and for tables written before the model was recorded.
+// A stale table was embedded with another model: vector search is off until it is re-indexed.
+export interface EmbeddingStatus {
+  model: string;
+  recorded: EmbeddingInfo | null;
+  stale: boolean;
+}
+
+// What the player can correct in a memory
+export type MemoryChanges = Partial<Pick<MemoryRecord, 'content' | 'importance' | 'emotions' | 'pinned'>>;
+
+export interface MemoryStore {
+  embed: Embedder;
+  initialize(): Promise<void>;
+  clear(): Promise<void>;
+  hasTable(): boolean;
+  count(): Promise<number>;
+  list(options?: { includeArchived?: boolean }): Promise<MemoryRecord[]>;
+  find(query: string, limit?: number, threshold?: number, options?: SearchOptions): Promise<MemorySearchResult[]>;
+  save(memoryData: NewMemory): Promise<void>;
+  add(record: MemoryInput): Promise<void>;
+  update(ids: string[], values: Partial<Pick<MemoryRecord, 'importance' | 'episodeId' | 'reinforcedAt'>>): Promise<void>;
+  edit(id: string, changes: MemoryChanges): Promise<MemoryRecord | null>;
+  remove(id: string): Promise<boolean>;
+  deleteSince(timestamp: number): Promise<number>;
+  addMany(records: MemoryInput[], options?: { replace?: boolean, embedding?: EmbeddingInfo | null }): Promise<number>;
+  embeddingStatus(): EmbeddingStatus;
+  reindex(): Promise<number>;
+}
+
+// LanceDB rows carry Arrow vectors; plain arrays can be serialized and written to another table
+export function toPlainRecord(record: MemoryRecord): MemoryRecord {
+  return {
+    id: record.id,
+    content: record.content,
+    embeddings: Array.from(record.embeddings),
+    time: record.time,
+    location: record.location,
+    importance: record.importance,
+    emotions: record.emotions,
+    createdAt: record.createdAt,
+    episodeId: record.episodeId,
+    sources: record.sources,
+    reinforcedAt: record.reinforcedAt,
+    pinned: record.pinned
+  };
+}
+
+// Columns added after the first tables were written, with the SQL that fills them in old rows
+const ADDED_COLUMNS = [
+  { name: 'episodeId', valueSql: "''" },
+  { name: 'sources', valueSql: "''" },
+  { name: 'reinforcedAt', valueSql: '`time`' },
+  { name: 'pinned', valueSql: 'false' }
+];
+
+function withDefaultFields<T extends MemoryInput>(record: T): T & Pick<MemoryRecord, 'episodeId' | 'sources' | 'reinforcedAt' | 'pinned'> {
+  return {
+    ...record,
+    episodeId: record.episodeId || '',
+    sources: record.sources || '',
+    reinforcedAt: record.reinforcedAt || record.time,
+    pinned: record.pinned || false
+  };
+}
+
+// Memories merged into an episode that is not among `records` are recalled on their own again
+export function releaseOrphans<T extends Pick<MemoryRecord, 'id' | 'episodeId'>>(records: T[]): T[] {
+  const ids = new Set(records.map(record => record.id));
+  return records.map(record => record.episodeId && !ids.has(record.episodeId) ? { ...record, episodeId: '' } : record);
+}
+
+const EMBEDDING_MODEL_KEY = 'embedding_model';
+const EMBEDDING_DIMENSION_KEY = 'embedding_dimension';
+
+function readEmbeddingInfo(schema: any): EmbeddingInfo | null {
+  const model = schema.metadata?.get(EMBEDDING_MODEL_KEY);
+  const dimension = Number(schema.metadata?.get(EMBEDDING_DIMENSION_KEY));
+  return model && dimension ? { model, dimension } : null;
+}
+
+// LanceDB ranks vectors by squared L2 distance; on normalized embeddings 1 - distance works as similarity
+function vectorSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) distance += (a[i] - b[i]) ** 2;
+  return 1 - distance;
+}
+
+const sqlList = (values: string[]) => values.map(value => `'${value.replace(/'/g, "''")}'`).join(', ');
+
+// Every element written as a float, or LanceDB reads [0, 0.5] as a mixed array
+const sqlVector = (vector: number[]) => `[${vector.map(value => Number.isInteger(value) ? value.toFixed(1) : String(value)).join(', ')}]`;
+
+// Connect to the LanceDB directory shared by all memory tables
+export async function connectMemoryDatabase(dbPath: string): Promise<any> {
+  const { connect } = await import('@lancedb/lancedb');
+  return connect(dbPath);
+}
+
+// One store per LanceDB table; each game session owns its own table
+export function createMemoryStore(options: { database: any, tableName: string, embed: Embedder, scoring?: ScoringConfig }): MemoryStore {
+  const { database: memoryDatabase, tableName, embed, scoring = DEFAULT_SCORING } = options;
+  const model = embed.model || 'unknown';
+  let memoryTable: any = null;
+  let recorded: EmbeddingInfo | null = null;
+  let stale = false;
+
+  async function initialize() {
+    // Try to load existing memory table
+    try {
+      memoryTable = await memoryDatabase.openTable(tableName);
+      broadcastLog(`🧠 Memory table ${tableName} loaded with existing memories`);
+    } catch {
+      // Table doesn't exist yet, will be created when first memory is saved
+      memoryTable = null;
+      return;
+    }
+
+    await ensureKeywordIndex();
+
+    // Tables written by older versions get the columns added since
+    const schema = await memoryTable.schema();
+    const columns = new Set(schema.fields.map((field: any) => field.name));
+    const missing = ADDED_COLUMNS.filter(column => !columns.has(column.name));
+    if (missing.length > 0) {
+      await memoryTable.addColumns(missing);
+      broadcastLog(`🧠 Added ${missing.map(column => column.name).join(', ')} to ${tableName}`);
+    }
+
+    await checkEmbeddings(schema);
+  }
+
+  // Compare the recorded model with the one the game uses now. Tables from before the model was recorded
+  // are checked by dimension; when it matches, the current model is recorded for them.
+  async function checkEmbeddings(schema: any) {
+    recorded = readEmbeddingInfo(schema);
+    if (!recorded) {
+      const dimension: number = schema.fields.find((field: any) => field.name === 'embeddings')?.type.listSize;
+      try {
+        const current = (await embed('dimension check')).length;
+        if (current === dimension) {
+          const rows = (await list({ includeArchived: true })).map(toPlainRecord);
+          if (rows.length > 0) {
+            await writeTable(rows);
+            broadcastLog(`🧠 Recorded embedding model ${model} for ${tableName}`);
+          }
+          return;
+        }
+        recorded = { model: 'unknown', dimension };
+      } catch (error: any) {
+        broadcastLog(`⚠️ Could not check the embeddings of ${tableName}: ${error.message}`);
+        return;
+      }
+    }
+
+    stale = recorded.model !== model;
+    if (stale) {
+      broadcastLog(
+        `⚠️ ${tableName} was embedded with ${recorded.model} (${recorded.dimension} dimensions), but the game uses ${model}. ` +
+        'Memories are searched by keyword only until they are re-indexed (POST /api/reindex-memories or start with --reindex)'
+      );
+    }
+  }
+
+  // The length of the current model's vectors
+  async function currentDimension(): Promise<number> {
+    return recorded && !stale ? recorded.dimension : (await embed('dimension check')).length;
+  }
+
+  // Replace the table with `rows`, recording the current model; every vector must be one it made
+  async function writeTable(rows: MemoryRecord[]) {
+    const { makeArrowTable } = await import('@lancedb/lancedb');
+    const dimension = await currentDimension();
+    if (rows.some(row => row.embeddings.length !== dimension)) {
+      throw new Error(`${tableName} can only hold ${dimension}-dimension vectors from ${model}`);
+    }
+    recorded = { model, dimension };
+    const metadata = new Map([[EMBEDDING_MODEL_KEY, recorded.model], [EMBEDDING_DIMENSION_KEY, String(recorded.dimension)]]);
+    memoryTable = await memoryDatabase.createTable(tableName, makeArrowTable(rows as any[], undefined, metadata), { mode: 'overwrite' });
+    stale = false;
+    await ensureKeywordIndex();
+  }
+
+  async function clear() {
+    try {
+      await memoryDatabase.dropTable(tableName);
+      broadcastLog(`🧹 Cleared all memories in ${tableName}`);
+      memoryTable = null;
+    } catch (error) {
+      // Table might not exist, that's fine
+      memoryTable = null;
+      broadcastLog('🧹 Memory already empty');
+    }
+    recorded = null;
+    stale = false;
+  }
+
+  // Full-text index over the content for keyword search; rows added later are searched without it until it is rebuilt
+  async function ensureKeywordIndex() {
+    const indices: Array<{ columns: string[], indexType: string }> = await memoryTable.listIndices();
+    if (!indices.some(index => index.indexType === 'FTS' && index.columns.includes('content'))) {
+      const { Index } = await import('@lancedb/lancedb');
+      await memoryTable.createIndex('content', { config: Index.fts() });
+      broadcastLog(`🔎 Created keyword index for ${tableName}`);
+    }
+  }
+
+  async function count(): Promise<number> {
+    return memoryTable ? await memoryTable.countRows("`episodeId` = ''") : 0;
+  }
+
+  // Memories Bilbo recalls, newest first; with `includeArchived`, also the ones merged into episodes
+  async function list(options: { includeArchived?: boolean } = {}): Promise<MemoryRecord[]> {
+    if (!memoryTable) return [];
+
+    const query = memoryTable.query();
+    const memories = await (options.includeArchived ? query : query.where("`episodeId` = ''")).toArray();
+    memories.sort((a: any, b: any) => b.createdAt - a.createdAt);
+    return memories;
+  }
+
+  // Memories matching the query, ranked by similarity, importance, recency, emotional match and, outside
+  // vector mode, keyword match. Vector hits must be at least `threshold` similar; keyword hits always count.
+  async function find(
+    query: string,
+    limit: number = 3,
+    threshold: number = MEMORY_RELEVANCE_THRESHOLD,
+    options: SearchOptions = {}
+  ): Promise<MemorySearchResult[]> {
+    if (!memoryTable) return [];
+    const { emotions = [] } = options;
+    const mode = stale ? 'keyword' : options.mode || 'hybrid';
+    if (stale) {
+      broadcastLog(`⚠️ ${tableName} needs re-indexing, searching by keyword only`);
+    }
+
+    try {
+      // Create embedding for search query; the vectors of a stale table cannot be compared with it
+      const queryEmbedding = stale ? null : await embed(query);
+      const candidates = new Map<string, { memory: any, similarity: number, keyword: number }>();
+
+      if (mode !== 'keyword') {
+        // Get more results than needed, the ranking below decides
+        const vectorResults = await memoryTable
+          .vectorSearch(queryEmbedding!)
+          .where("`episodeId` = ''")
+          .limit(limit * 3)
+          .toArray();
+
+        // LanceDB returns _distance, lower = more similar
+        for (const memory of vectorResults) {
+          const similarity = 1 - (memory._distance || 0);
+          if (similarity >= threshold) candidates.set(memory.id, { memory, similarity, keyword: 0 });
+        }
+      }
+
+      if (mode !== 'vector') {
+        const keywordResults = await memoryTable
+          .query()
+          .fullTextSearch(query)
+          .where("`episodeId` = ''")
+          .limit(limit * 3)
+          .toArray();
+
+        // BM25 scores have no fixed range; the best keyword hit gets 1
+        const best = Math.max(...keywordResults.map((memory: any) => memory._score), 0);
+        for (const memory of keywordResults) {
+          const keyword = best > 0 ? memory._score / best : 0;
+          const existing = candidates.get(memory.id);
+          if (existing) {
+            existing.keyword = keyword;
+          } else {
+            candidates.set(memory.id, { memory, similarity: queryEmbedding ? vectorSimilarity(queryEmbedding, memory.embeddings) : 0, keyword });
+          }
+        }
+      }
+
+      // Recency counts the memories saved since
+      const createdAt: number[] = (await memoryTable.query().where("`episodeId` = ''").select(['createdAt']).toArray())
+        .map((row: any) => Number(row.createdAt));
+
+      // Without keyword search there is no keyword match to weigh
+      const config = mode === 'vector' ? { ...scoring, keyword: 0 } : scoring;
+      const ranked = [...candidates.values()]
+        .map(({ memory, similarity, keyword }) => ({
+          memory,
+          similarity,
+          score: scoreMemory({
+            similarity,
+            keyword,
+            importance: memory.importance,
+            newer: createdAt.filter(time => time > Number(memory.createdAt)).length,
+            emotions: memory.emotions
+          }, emotions, config)
+        }))
+        .sort((a, b) => b.score.total - a.score.total)
+        .slice(0, limit);
+
+      broadcastLog(`Found ${ranked.length}/${candidates.size} relevant memories for: "${query}" (${mode}, threshold: ${threshold})`);
+
+      return ranked.map(({ memory, similarity, score }) => ({
+        id: memory.id,
+        content: memory.content,
+        time: memory.time,
+        location: memory.location,
+        importance: memory.importance,
+        emotions: memory.emotions,
+        createdAt: memory.createdAt,
+        pinned: memory.pinned,
+        similarity: similarity.toFixed(3),
+        score
+        // embeddings excluded
+      }));
+    } catch (error: any) {
+      broadcastLog(`❌ Error finding memories: ${error.message}`);
+      return [];
+    }
+  }
+
+  // Vectors from two models cannot share a table
+  function checkNotStale() {
+    if (stale) {
+      throw new Error(`${tableName} was embedded with ${recorded!.model}; re-index it before adding memories`);
+    }
+  }
+
+  async function insert(memoryRecord: MemoryRecord) {
+    checkNotStale();
+    if (!memoryTable) {
+      broadcastLog('Creating memory table with vector support...');
+      // Overwrites a leftover table with the wrong schema
+      await writeTable([memoryRecord]);
+    } else {
+      await memoryTable.add([memoryRecord]);
+    }
+  }
+
+  // Store a memory produced by a turn; failures are logged, never thrown
+  async function save(memoryData: NewMemory): Promise<void> {
+    try {
+      // Create embedding for the memory content
+      const contentEmbedding = await embed(memoryData.content);
+
+      const memoryRecord = withDefaultFields({
+        id: Date.now().toString(),
+        content: memoryData.content,
+        embeddings: contentEmbedding,
+        time: memoryData.time,
+        location: memoryData.location,
+        importance: memoryData.importance,
+        emotions: memoryData.emotions,
+        createdAt: Date.now()
+      });
+
+      await insert(memoryRecord);
+      broadcastLog(`Saved memory: ${memoryRecord.content}`);
+    } catch (error: any) {
+      broadcastLog(`❌ Error saving memory: ${error.message}`);
+    }
+  }
+
+  // Vectors brought in from a save, an import or a fork are kept only when the current model made them.
+  // When their model is not known, vectors of the current dimension are kept, like tables from before it was recorded.
+  async function reusableEmbeddings<T extends MemoryInput>(records: T[], source?: EmbeddingInfo | null): Promise<T[]> {
+    if (!records.some(record => record.embeddings)) return records;
+
+    const dimension = await currentDimension();
+    const keep = (record: T) => source
+      ? source.model === model && source.dimension === dimension
+      : record.embeddings!.length === dimension;
+    const reused = records.map(record => !record.embeddings || keep(record) ? record : { ...record, embeddings: undefined });
+
+    const dropped = reused.filter((record, index) => records[index].embeddings && !record.embeddings).length;
+    if (dropped > 0) {
+      broadcastLog(`🧠 ${dropped} memories were embedded with ${source ? `${source.model} (${source.dimension} dimensions)` : 'another model'}, embedding them again with ${model}`);
+    }
+    return reused;
+  }
+
+  // Store an existing record (e.g. from a loaded save), embedding it if needed
+  async function add(record: MemoryInput): Promise<void> {
+    let [{ embeddings }] = await reusableEmbeddings([record]);
+    if (!embeddings) {
+      broadcastLog('Creating embeddings for loaded memory: ' + record.content.substring(0, 50) + '...');
+      embeddings = await embed(record.content);
+    }
+
+    await insert(withDefaultFields({ ...record, embeddings }));
+  }
+
+  // Set the same values on every memory in `ids`
+  async function update(ids: string[], values: Partial<Pick<MemoryRecord, 'importance' | 'episodeId' | 'reinforcedAt'>>): Promise<void> {
+    if (!memoryTable || ids.length === 0) return;
+    await memoryTable.update({ where: `\`id\` IN (${sqlList(ids)})`, values });
+  }
+
+  // Correct a memory; new content gets a new embedding. Null when there is no memory `id`.
+  async function edit(id: string, changes: MemoryChanges): Promise<MemoryRecord | null> {
+    if (!memoryTable) return null;
+
+    const where = `\`id\` = ${sqlList([id])}`;
+    if (await memoryTable.countRows(where) === 0) return null;
+    // New content needs a vector from the table's model; the other fields can change either way
+    if (changes.content !== undefined) checkNotStale();
+
+    if (Object.keys(changes).length > 0) {
+      await memoryTable.update({ where, values: changes });
+    }
+    if (changes.content !== undefined) {
+      await memoryTable.update({ where, valuesSql: { embeddings: sqlVector(await embed(changes.content)) } });
+    }
+
+    const [record] = await memoryTable.query().where(where).toArray();
+    broadcastLog(`✏️ Edited memory ${id}: ${Object.keys(changes).join(', ') || 'nothing changed'}`);
+    return record;
+  }
+
+  // Forget one memory; an episode's merged memories are recalled on their own again
+  async function remove(id: string): Promise<boolean> {
+    if (!memoryTable) return false;
+
+    const where = `\`id\` = ${sqlList([id])}`;
+    if (await memoryTable.countRows(where) === 0) return false;
+
+    await memoryTable.delete(where);
+    const members = await memoryTable.query().where(`\`episodeId\` = ${sqlList([id])}`).select(['id']).toArray();
+    await update(members.map((member: any) => member.id), { episodeId: '' });
+    broadcastLog(`🗑️ Deleted memory ${id}`);
+    return true;
+  }
+
+  // Remove memories created at or after `timestamp`, e.g. by turns that were rewound
+  async function deleteSince(timestamp: number): Promise<number> {
+    if (!memoryTable) return 0;
+
+    const before = await memoryTable.countRows();
+    await memoryTable.delete(`\`createdAt\` >= ${Math.floor(timestamp)}`);
+    const removed = before - await memoryTable.countRows();
+    broadcastLog(`🧹 Removed ${removed} memories created after the rewind point`);
+
+    // An episode that ended after the rewind point is gone; the memories it merged come back
+    const remaining = await list({ includeArchived: true });
+    const released = releaseOrphans(remaining).filter((record, index) => record.episodeId !== remaining[index].episodeId);
+    await update(released.map(record => record.id), { episodeId: '' });
+    return removed;
+  }
+
+  // Import many records at once. Missing embeddings are computed in batches first, then
+  // everything is written in a single LanceDB commit, so a failure leaves the table untouched.
+  // With `replace`, the table is overwritten instead of appended to; `embedding` is the model that made the records' vectors.
+  async function addMany(
+    incoming: MemoryInput[],
+    options: { replace?: boolean, embedding?: EmbeddingInfo | null } = {}
+  ): Promise<number> {
+    if (!options.replace) checkNotStale();
+    const records = await reusableEmbeddings(incoming, options.embedding);
+    const missing = records.filter(record => !record.embeddings);
+    const computed = new Map<typeof records[number], number[]>();
+
+    for (let start = 0; start < missing.length; start += EMBEDDING_BATCH_SIZE) {
+      const batch = missing.slice(start, start + EMBEDDING_BATCH_SIZE);
+      const vectors = await embedMany(embed, batch.map(record => record.content));
+      batch.forEach((record, index) => computed.set(record, vectors[index]));
+      broadcastLog(`🧠 Embedded ${start + batch.length}/${missing.length} memories for ${tableName}`);
+    }
+
+    const rows: MemoryRecord[] = records.map(record => withDefaultFields({
+      ...record,
+      embeddings: record.embeddings || computed.get(record)!
+    }));
+
+    if (rows.length === 0) {
+      if (options.replace) await clear();
+      return 0;
+    }
+
+    if (options.replace || !memoryTable) {
+      await writeTable(rows);
+    } else {
+      await memoryTable.add(rows);
+    }
+
+    broadcastLog(`✅ Imported ${rows.length} memories into ${tableName}`);
+    return rows.length;
+  }
+
+  // Embed every memory again with the current model, e.g. after `api.embedding` changed.
+  // Like an import, the table is only rewritten once every memory has its new vector.
+  async function reindex(): Promise<number> {
+    const records = (await list({ includeArchived: true })).map(toPlainRecord).map(({ embeddings, ...record }) => record);
+    if (records.length === 0) return 0;
+
+    broadcastLog(`🔁 Re-indexing ${records.length} memories in ${tableName} with ${model}`);
+    await addMany(records, { replace: true });
+    broadcastLog(`✅ Re-indexed ${tableName}: ${recorded!.dimension} dimensions`);
+    return records.length;
+  }
+
+  return {
+    embed,
+    initialize,
+    clear,
+    hasTable: () => memoryTable !== null,
+    count,
+    list,
+    find,
+    save,
+    add,
+    update,
+    edit,
+    remove,
+    addMany,
+    deleteSince,
+    embeddingStatus: () => ({ model, recorded, stale }),
+    reindex
+  };
+}
@@ -0,0 +1,116 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import { describe, it, expect, afterEach } from 'vitest';
+import request from 'supertest';
+import { createApp } from './app';
+import { createMockLanguageModel, hashPrompt, loadFixtures, withRecording, FixtureEntry } from './mockModel';
+import { createTestContext, loadInitialState, sampleResponse } from './testUtils';
+
+const cleanups: Array<() => Promise<void>> = [];
+
+afterEach(async () => {
+  for (const cleanup of cleanups.splice(0)) await cleanup();
+});
+
+async function tempFixturePath(): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'hobbit-fixtures-'));
+  cleanups.push(() => fs.rm(dir, { recursive: true, force: true }));
+  return path.join(dir, 'session.json');
+}
+
+// A turn where the model looks in Bilbo's memory before answering
+const TURN: FixtureEntry[] = [
+  { content: [{ type: 'tool-call', toolCallId: 'call-1', toolName: 'search_memory', input: JSON.stringify({ query: 'Gandalf' }) }] },
+  { content: [{ type: 'text', text: JSON.stringify(sampleResponse()) }] }
+];
+
+// Play one turn in a fresh game with the given model
+async function playTurn(languageModel: ReturnType<typeof createMockLanguageModel>) {
+  const testContext = await createTestContext([]);
+  cleanups.push(testContext.cleanup);
+  const context = { ...testContext.context, languageModel };
+  const session = await context.sessions.create('Test game');
+  const gameState = await loadInitialState('en');
+
+  return request(createApp(context))
+    .post('/api/process-game-action')
+    .send({ sessionId: session.id, gameState, action: 'I open the door', language: 'en' });
+}
+
+describe('withRecording', () => {
+  it('records a turn with a tool call that replay mode plays back', async () => {
+    const filePath = await tempFixturePath();
+    const recording = await withRecording(createMockLanguageModel({ version: 1, entries: TURN }, 'script'), filePath);
+
+    const recorded = await playTurn(recording);
+    expect(recorded.status).toBe(200);
+
+    const fixtures = await loadFixtures(filePath);
+    expect(fixtures.entries.map(entry => entry.content[0].type)).toEqual(['tool-call', 'text']);
+    expect(fixtures.entries.every(entry => typeof entry.promptHash === 'string')).toBe(true);
+    // The tool result is part of the answering step's prompt
+    expect(fixtures.entries[0].promptHash).not.toBe(fixtures.entries[1].promptHash);
+
+    const replayed = await playTurn(createMockLanguageModel(fixtures, 'replay'));
+    expect(replayed.status).toBe(200);
+    expect(replayed.body.reaction).toBe(recorded.body.reaction);
+    expect(replayed.body.gameState).toEqual(recorded.body.gameState);
+  });
+
+  it('keeps the entries already in the file when recording starts again', async () => {
+    const filePath = await tempFixturePath();
+    await playTurn(await withRecording(createMockLanguageModel({ version: 1, entries: TURN }, 'script'), filePath));
+    await playTurn(await withRecording(createMockLanguageModel({ version: 1, entries: TURN }, 'script'), filePath));
+
+    const fixtures = await loadFixtures(filePath);
+    expect(fixtures.entries).toHaveLength(4);
+  });
+
+  it('keeps the game going when the recording cannot be written, and catches up once it can', async () => {
+    const dir = path.dirname(await tempFixturePath());
+    const filePath = path.join(dir, 'recordings', 'session.json');
+    const recording = await withRecording(createMockLanguageModel({ version: 1, entries: [...TURN, ...TURN] }, 'script'), filePath);
+
+    // A file where the recordings directory should be makes every write fail
+    await fs.writeFile(path.join(dir, 'recordings'), '', 'utf8');
+    expect((await playTurn(recording)).status).toBe(200);
+
+    await fs.rm(path.join(dir, 'recordings'));
+    expect((await playTurn(recording)).status).toBe(200);
+    expect((await loadFixtures(filePath)).entries).toHaveLength(4);
+  });
+
+  it('refuses to record into a file that is not a fixture file', async () => {
+    const filePath = await tempFixturePath();
+    await fs.writeFile(filePath, 'notes about the session', 'utf8');
+    const model = createMockLanguageModel({ version: 1, entries: TURN }, 'script');
+
+    await expect(withRecording(model, filePath)).rejects.toThrow('Refusing to record');
+    expect(await fs.readFile(filePath, 'utf8')).toBe('notes about the session');
+  });
+});
+
+describe('replay mode', () => {
+  const prompt = [{ role: 'user', content: [{ type: 'text', text: 'I open the door' }] }];
+  const call = (model: any) => model.doGenerate({ prompt }).then((result: any) => result.content[0].text);
+
+  it('plays identical prompts in recorded order, then repeats the last one', async () => {
+    const promptHash = hashPrompt(prompt);
+    const model = createMockLanguageModel({
+      version: 1,
+      entries: [
+        { promptHash, content: [{ type: 'text', text: 'first' }] },
+        { promptHash: 'other', content: [{ type: 'text', text: 'unrelated' }] },
+        { promptHash, content: [{ type: 'text', text: 'second' }] }
+      ]
+    }, 'replay');
+
+    expect([await call(model), await call(model), await call(model)]).toEqual(['first', 'second', 'second']);
+  });
+
+  it('fails on a prompt that was never recorded', async () => {
+    const model = createMockLanguageModel({ version: 1, entries: [{ promptHash: 'other', content: [] }] }, 'replay');
+    await expect(call(model)).rejects.toThrow('No recorded response for prompt');
+  });
+});
@@ -0,0 +1,233 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { wrapLanguageModel, LanguageModel, LanguageModelMiddleware } from 'ai';
+import { broadcastLog } from './logs';
+
+// ========================
+// TYPES & INTERFACES
+// ========================
+
+type LanguageModelV3 = Extract<LanguageModel, { specificationVersion: 'v3' }>;
+
+type FixtureContent =
+  | { type: 'text'; text: string }
+  | { type: 'tool-call'; toolCallId: string; toolName: string; input: string };
+
+// One model call: what the model produced for one prompt (a single step of a turn)
+export interface FixtureEntry {
+  promptHash?: string;
+  content: FixtureContent[];
+  finishReason?: 'stop' | 'tool-calls' | 'length' | 'other';
+}
+
+export interface FixtureFile {
+  version: 1;
+  entries: FixtureEntry[];
+}
+
+// 'script' plays entries in file order, 'replay' looks them up by prompt hash
+export type MockMode = 'script' | 'replay';
+
+// ========================
+// FIXTURES
+// ========================
+
+// The prompt includes tool results, so every step of a turn gets its own hash
+export function hashPrompt(prompt: unknown): string {
+  return crypto.createHash('sha256').update(JSON.stringify(prompt)).digest('hex').slice(0, 16);
+}
+
+export async function loadFixtures(filePath: string): Promise<FixtureFile> {
+  let data: string;
+  try {
+    data = await fs.readFile(path.resolve(filePath), 'utf8');
+  } catch (error: any) {
+    throw new Error(`Mock LLM fixture file not found: ${filePath} (${error.message})`);
+  }
+
+  const fixtures = JSON.parse(data);
+  if (!Array.isArray(fixtures.entries)) {
+    throw new Error(`Mock LLM fixture file ${filePath} has no "entries" array`);
+  }
+  return fixtures;
+}
+
+function emptyUsage() {
+  return {
+    inputTokens: { total: 0, noCache: 0, cacheRead: 0, cacheWrite: 0 },
+    outputTokens: { total: 0, text: 0, reasoning: 0 }
+  };
+}
+
+function entryFinishReason(entry: FixtureEntry) {
+  const unified = entry.finishReason ||
+    (entry.content.some(part => part.type === 'tool-call') ? 'tool-calls' : 'stop');
+  return { unified, raw: unified };
+}
+
+// ========================
+// MOCK MODEL
+// ========================
+
+export function createMockLanguageModel(fixtures: FixtureFile, mode: MockMode, modelId: string = 'mock'): LanguageModel {
+  let scriptPosition = 0;
+  const replayPositions = new Map<string, number>();
+
+  const nextEntry = (prompt: unknown): FixtureEntry => {
+    if (mode === 'script') {
+      const entry = fixtures.entries[scriptPosition];
+      if (!entry) {
+        throw new Error(`Mock LLM script exhausted after ${fixtures.entries.length} responses`);
+      }
+      scriptPosition++;
+      return entry;
+    }
+
+    // Identical prompts (e.g. a retried turn) replay their recordings in order, then repeat the last one
+    const promptHash = hashPrompt(prompt);
+    const matches = fixtures.entries.filter(entry => entry.promptHash === promptHash);
+    if (matches.length === 0) {
+      throw new Error(`No recorded response for prompt ${promptHash}`);
+    }
+    const position = replayPositions.get(promptHash) || 0;
+    replayPositions.set(promptHash, position + 1);
+    return matches[Math.min(position, matches.length - 1)];
+  };
+
+  const model: LanguageModelV3 = {
+    specificationVersion: 'v3',
+    provider: 'mock',
+    modelId,
+    supportedUrls: {},
+
+    async doGenerate(options) {
+      const entry = nextEntry(options.prompt);
+      return {
+        content: entry.content.map(part => ({ ...part })),
+        finishReason: entryFinishReason(entry),
+        usage: emptyUsage(),
+        warnings: []
+      };
+    },
+
+    async doStream(options) {
+      const entry = nextEntry(options.prompt);
+
+      const stream = new ReadableStream({
+        start(controller) {
+          controller.enqueue({ type: 'stream-start', warnings: [] });
+
+          entry.content.forEach((part, index) => {
+            if (part.type === 'text') {
+              const id = `text-${index}`;
+              controller.enqueue({ type: 'text-start', id });
+              // Word-sized deltas so streaming consumers behave as with a real model
+              for (const delta of part.text.match(/\S+\s*|\s+/g) || []) {
+                controller.enqueue({ type: 'text-delta', id, delta });
+              }
+              controller.enqueue({ type: 'text-end', id });
+            } else {
+              controller.enqueue({ ...part });
+            }
+          });
+
+          controller.enqueue({ type: 'finish', finishReason: entryFinishReason(entry), usage: emptyUsage() });
+          controller.close();
+        }
+      });
+
+      return { stream };
+    }
+  };
+
+  return model;
+}
+
+// ========================
+// RECORDING
+// ========================
+
+// Entries already recorded in the file, so a restart appends to them instead of starting over
+async function loadRecording(resolvedPath: string, filePath: string): Promise<FixtureFile> {
+  let data: string;
+  try {
+    data = await fs.readFile(resolvedPath, 'utf8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return { version: 1, entries: [] };
+    throw error;
+  }
+
+  let fixtures: any;
+  try {
+    fixtures = JSON.parse(data);
+  } catch {
+    fixtures = null;
+  }
+  if (!Array.isArray(fixtures?.entries)) {
+    throw new Error(`Refusing to record into ${filePath}: the file exists and is not a mock LLM fixture file`);
+  }
+  return fixtures;
+}
+
+// Wrap a real model so every call is appended to a fixture file usable in 'replay' mode
+export async function withRecording(model: LanguageModel, filePath: string): Promise<LanguageModel> {
+  const resolvedPath = path.resolve(filePath);
+  const recorded = await loadRecording(resolvedPath, filePath);
+  let pendingWrite = Promise.resolve();
+
+  // A failed write is logged and the next call writes the whole file again; recording never fails a turn
+  const record = (entry: FixtureEntry) => {
+    recorded.entries.push(entry);
+    pendingWrite = pendingWrite
+      .then(() => fs.mkdir(path.dirname(resolvedPath), { recursive: true }))
+      .then(() => fs.writeFile(resolvedPath, JSON.stringify(recorded, null, 2), 'utf8'))
+      .catch((error: any) => broadcastLog(`❌ Could not record the LLM call to ${filePath}: ${error.message}`));
+    return pendingWrite;
+  };
+
+  const middleware: LanguageModelMiddleware = {
+    specificationVersion: 'v3',
+
+    wrapGenerate: async ({ doGenerate, params }) => {
+      const result = await doGenerate();
+      const content: FixtureContent[] = [];
+      for (const part of result.content) {
+        if (part.type === 'text') {
+          content.push({ type: 'text', text: part.text });
+        } else if (part.type === 'tool-call') {
+          content.push({ type: 'tool-call', toolCallId: part.toolCallId, toolName: part.toolName, input: part.input });
+        }
+      }
+      await record({ promptHash: hashPrompt(params.prompt), content });
+      return result;
+    },
+
+    wrapStream: async ({ doStream, params }) => {
+      const { stream, ...rest } = await doStream();
+      const content: FixtureContent[] = [];
+      let text = '';
+
+      const recorder = new TransformStream({
+        transform(part, controller) {
+          if (part.type === 'text-delta') {
+            text += part.delta;
+          } else if (part.type === 'tool-call') {
+            content.push({ type: 'tool-call', toolCallId: part.toolCallId, toolName: part.toolName, input: part.input });
+          }
+          controller.enqueue(part);
+        },
+        async flush() {
+          if (text) {
+            content.unshift({ type: 'text', text });
+          }
+          await record({ promptHash: hashPrompt(params.prompt), content });
+        }
+      });
+
+      return { stream: stream.pipeThrough(recorder), ...rest };
+    }
+  };
+
+  return wrapLanguageModel({ model: model as LanguageModelV3, middleware });
+}
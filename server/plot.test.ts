@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { loadGeography } from './geography';
+import { advancePlot, describePlot, loadPlot, measureDivergence } from './plot';
+import { gameResponseSchema } from './responseSchema';
+import { sampleResponse } from './testUtils';
+import type { Location, PlotProgress, Time } from './types';
+
+const bagEnd: Location = { region: 'The Shire', settlement: 'Hobbiton', place: 'Bag End' };
+const greenDragon: Location = { region: 'The Shire', settlement: 'Bywater', place: 'The Green Dragon' };
+const rivendell: Location = { region: 'Eriador', settlement: 'Rivendell', place: 'The Last Homely House' };
+const morning: Time = { day: 22, month: 'September', year: 2941, era: 'Third Age', time: '8:10' };
+
+const turn = (worldResponse: string) => gameResponseSchema.parse(sampleResponse({ worldResponse }));
+
+describe('advancePlot', () => {
+  it('reaches a beat in its place when the turn mentions it', async () => {
+    const [plot, geography] = await Promise.all([loadPlot(), loadGeography()]);
+
+    expect(advancePlot(plot, [], geography, bagEnd, bagEnd, morning, turn('Nobody is there; it is out of control.'))).toEqual([]);
+    expect(advancePlot(plot, [], geography, bagEnd, bagEnd, morning, turn('Thirteen dwarves push into the hall.'))).toEqual([
+      { beat: 'unexpected-party', status: 'reached', time: morning }
+    ]);
+    expect(advancePlot(plot, [], geography, bagEnd, bagEnd, morning, turn('Двенадцать гномов и Торин вошли в нору.'))).toEqual([
+      { beat: 'unexpected-party', status: 'reached', time: morning }
+    ]);
+  });
+
+  it('marks a beat altered when Bilbo leaves its place without it', async () => {
+    const [plot, geography] = await Promise.all([loadPlot(), loadGeography()]);
+
+    expect(advancePlot(plot, [], geography, bagEnd, greenDragon, morning, turn('The inn is warm and loud.'))).toEqual([
+      { beat: 'unexpected-party', status: 'altered', time: morning }
+    ]);
+  });
+
+  it('skips the beats Bilbo went past', async () => {
+    const [plot, geography] = await Promise.all([loadPlot(), loadGeography()]);
+    const progress: PlotProgress[] = [{ beat: 'unexpected-party', status: 'reached', time: morning }];
+
+    const updated = advancePlot(plot, progress, geography, greenDragon, rivendell, morning, turn('Elves sing in the trees.'));
+
+    expect(updated.map(entry => [entry.beat, entry.status])).toEqual([
+      ['unexpected-party', 'reached'],
+      ['roast-mutton', 'skipped'],
+      ['short-rest', 'reached']
+    ]);
+    expect(measureDivergence(updated)).toBeCloseTo(1 / 3);
+  });
+});
+
+describe('describePlot', () => {
+  it('lists every beat in the game language with the latest one lived through', async () => {
+    const plot = await loadPlot();
+    const view = describePlot(plot, [
+      { beat: 'unexpected-party', status: 'altered', time: morning },
+      { beat: 'roast-mutton', status: 'skipped', time: morning }
+    ], 'ru');
+
+    expect(view.current).toBe('unexpected-party');
+    expect(view.divergence).toBe(0.75);
+    expect(view.beats.slice(0, 3)).toEqual([
+      { id: 'unexpected-party', chapter: 1, title: 'Незваные гости', status: 'altered', time: morning },
+      { id: 'roast-mutton', chapter: 2, title: 'Жареная баранина', status: 'skipped', time: morning },
+      { id: 'short-rest', chapter: 3, title: 'Краткий отдых', status: 'ahead', time: null }
+    ]);
+  });
+});
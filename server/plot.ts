@@ -0,0 +1,119 @@
+import path from 'path';
+import { fileURLToPath } from 'url';
+import fs from 'fs/promises';
+import type { Geography } from './geography';
+import type { GameResponse } from './responseSchema';
+import type { Location, PlotProgress, Time } from './types';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// ========================
+// BOOK PLOT
+// ========================
+
+const PLOT_FILE = path.join(__dirname, 'data/plot.json');
+
+// How far each outcome takes the story from the book
+const DIVERGENCE_WEIGHTS: Record<PlotProgress['status'], number> = { reached: 0, altered: 0.5, skipped: 1 };
+
+// A beat happens in one of its settlements (map ids) on a turn that mentions one of its keywords;
+// beats without keywords happen on arrival. Keywords of every language match the start of a word.
+export interface PlotBeat {
+  id: string;
+  chapter: number;
+  titles: Record<string, string[]>;
+  settlements: string[];
+  keywords: Record<string, string[]>;
+}
+
+export interface PlotData {
+  beats: PlotBeat[];
+}
+
+// The book's beats as the browser shows them, with titles in one language
+export interface PlotView {
+  beats: Array<{ id: string; chapter: number; title: string; status: PlotProgress['status'] | 'ahead'; time: Time | null }>;
+  current: string | null; // the latest beat Bilbo lived through, null before the first one
+  divergence: number; // 0 follows the book, 1 left it completely
+}
+
+let plot: Promise<PlotData> | null = null;
+
+// The beats are read once and shared by every session
+export function loadPlot(): Promise<PlotData> {
+  if (!plot) {
+    plot = fs.readFile(PLOT_FILE, 'utf8').then(text => JSON.parse(text));
+  }
+  return plot;
+}
+
+const normalizeText = (text: string) => text.toLowerCase().replace(/ё/g, 'е');
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function mentions(beat: PlotBeat, text: string): boolean {
+  const keywords = Object.values(beat.keywords).flat();
+  if (keywords.length === 0) return true;
+
+  const normalized = normalizeText(text);
+  return keywords.some(keyword => new RegExp(`(^|[^\\p{L}])${escapeRegExp(normalizeText(keyword))}`, 'u').test(normalized));
+}
+
+// The plot after a turn from `from` to `to`. A beat is reached in its settlements when the turn's memory
+// or world response mentions it; leaving its settlements without that means the story went another way.
+// Beats before a resolved one that Bilbo never lived through are skipped.
+export function advancePlot(
+  plotData: PlotData,
+  progress: PlotProgress[],
+  geography: Geography,
+  from: Location,
+  to: Location,
+  time: Time,
+  response: GameResponse
+): PlotProgress[] {
+  const origin = geography.resolve(from)?.settlement;
+  const target = geography.resolve(to)?.settlement;
+  const text = `${response.memory}\n${response.worldResponse}`;
+  const updated = [...progress];
+  const resolved = (beat: PlotBeat) => updated.some(entry => entry.beat === beat.id);
+
+  plotData.beats.forEach((beat, index) => {
+    if (resolved(beat)) return;
+
+    const here = target !== undefined && beat.settlements.includes(target);
+    const left = !here && origin !== undefined && beat.settlements.includes(origin);
+    const status = here && mentions(beat, text) ? 'reached' : left ? 'altered' : null;
+    if (!status) return;
+
+    for (const earlier of plotData.beats.slice(0, index)) {
+      if (!resolved(earlier)) updated.push({ beat: earlier.id, status: 'skipped', time });
+    }
+    updated.push({ beat: beat.id, status, time });
+  });
+
+  return updated;
+}
+
+// Average distance from the book over the beats already behind Bilbo
+export function measureDivergence(progress: PlotProgress[]): number {
+  if (progress.length === 0) return 0;
+  return progress.reduce((sum, entry) => sum + DIVERGENCE_WEIGHTS[entry.status], 0) / progress.length;
+}
+
+export function beatTitle(beat: PlotBeat, language: string): string {
+  return (beat.titles[language] || beat.titles.en)[0];
+}
+
+export function describePlot(plotData: PlotData, progress: PlotProgress[], language: string): PlotView {
+  const lived = progress.filter(entry => entry.status !== 'skipped');
+
+  return {
+    beats: plotData.beats.map(beat => {
+      const entry = progress.find(candidate => candidate.beat === beat.id);
+      return { id: beat.id, chapter: beat.chapter, title: beatTitle(beat, language), status: entry ? entry.status : 'ahead', time: entry ? entry.time : null };
+    }),
+    current: lived.length > 0 ? lived[lived.length - 1].beat : null,
+    divergence: measureDivergence(progress)
+  };
+}
@@ -0,0 +1,171 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import { describe, it, expect } from 'vitest';
+import { buildPrompt, parseGameResponse, validatePromptTemplates } from './prompt';
+import type { MemoryStore } from './memory';
+import { loadInitialState } from './testUtils';
+
+function memoryWith(contents: string[], pinned: number[] = []): MemoryStore {
+  const records = contents.map((content, index) => ({
+    id: String(index),
+    content,
+    embeddings: [],
+    time: `${index + 1} April 2941, 8:00`,
+    location: '',
+    importance: 0.5,
+    emotions: '',
+    createdAt: index,
+    pinned: pinned.includes(index)
+  }));
+
+  return {
+    hasTable: () => records.length > 0,
+    // newest first, like the real store
+    list: async () => [...records].reverse()
+  } as unknown as MemoryStore;
+}
+
+describe('buildPrompt', () => {
+  it('substitutes the game state into the prompt template', async () => {
+    const gameState = await loadInitialState('en');
+    const { rulesContent, dynamicContent } = await buildPrompt(gameState, 'I open the door', 'en', memoryWith([]));
+
+    expect(rulesContent).toContain('JSON RESPONSE FORMAT');
+    expect(dynamicContent).toContain('Location: The Shire, Hobbiton, Bag End');
+    expect(dynamicContent).toMatch(/Time: 22 September 2941 Third Age, 8:00 \(morning, autumn, [a-z ]+ moon\)/);
+    expect(dynamicContent).toContain('Plans: to rest');
+    expect(dynamicContent).toContain('Emotions: calm and content');
+    expect(dynamicContent).toContain('Inventory: pipe x1 (well-smoked wooden pipe, acquired: Bag End)');
+    expect(dynamicContent).toContain('CHARACTERS IN THE SCENE:\nnobody');
+    expect(dynamicContent).toContain('Roads from here: Bywater (1 hour); Tuckborough (8 hours)');
+    expect(dynamicContent).toContain('I open the door');
+    expect(dynamicContent).not.toMatch(/\{\{\w+\}\}/);
+  });
+
+  it('uses fallbacks for empty state lists', async () => {
+    const gameState = await loadInitialState('en');
+    gameState.bilboState.plans = [];
+    gameState.environment = [];
+
+    const { dynamicContent } = await buildPrompt(gameState, 'I wait', 'en', memoryWith([]));
+
+    expect(dynamicContent).toContain('Plans: no special plans');
+    expect(dynamicContent).toContain('Environment: peaceful surroundings');
+  });
+
+  it('writes the fallbacks for empty lists in the prompt\'s language', async () => {
+    const gameState = await loadInitialState('ru');
+    gameState.bilboState.plans = [];
+    gameState.bilboState.emotions = [];
+
+    const { dynamicContent } = await buildPrompt(gameState, 'Жду', 'ru', memoryWith([]));
+
+    expect(dynamicContent).toContain('Планы: особых планов нет');
+    expect(dynamicContent).toContain('Эмоции: спокойствие');
+    expect(dynamicContent).toContain('БИЛЬБО НИКОГДА НЕ ЗАБУДЕТ:\nничего особенного');
+  });
+
+  it('writes the characters in the scene and the inventory in the prompt\'s language', async () => {
+    const gameState = await loadInitialState('ru');
+    const lastSeen = { location: gameState.location, time: gameState.time };
+    gameState.characters = [
+      { name: 'Гэндальф', race: 'маг', present: true, disposition: 'насмешлив', lastSeen, facts: ['нацарапал знак на двери', 'ищет взломщика'] },
+      { name: 'Торин', race: '', present: true, disposition: 'высокомерен', lastSeen, facts: [] },
+      { name: 'Смауг', race: 'дракон', present: false, disposition: 'не знает о Бильбо', lastSeen, facts: [] }
+    ];
+    gameState.bilboState.inventory.push({ item: 'платок', quantity: 2, condition: 'чистые', acquired: 'Бэг-Энд' });
+
+    const { dynamicContent } = await buildPrompt(gameState, 'Жду', 'ru', memoryWith([]));
+
+    expect(dynamicContent).toContain(
+      'ПЕРСОНАЖИ В СЦЕНЕ:\nГэндальф (маг), отношение к Бильбо: насмешлив; нацарапал знак на двери; ищет взломщика\n' +
+      'Торин (раса неизвестна), отношение к Бильбо: высокомерен\n\n'
+    );
+    expect(dynamicContent).not.toContain('Смауг');
+    expect(dynamicContent).toMatch(/Инвентарь: [^\n]+; платок x2 \(чистые, где взято: Бэг-Энд\)\n/);
+    expect(dynamicContent).not.toMatch(/attitude|acquired|unknown race/);
+  });
+
+  it('puts recent memories in chronological order', async () => {
+    const gameState = await loadInitialState('en');
+    const memory = memoryWith(['I met Gandalf', 'Dwarves arrived', 'We sang about gold']);
+
+    const { dynamicContent } = await buildPrompt(gameState, 'I listen', 'en', memory);
+
+    expect(dynamicContent).toContain('I met Gandalf\n---\nDwarves arrived\n---\nWe sang about gold');
+  });
+
+  it('always includes pinned memories', async () => {
+    const gameState = await loadInitialState('en');
+    const contents = ['I found a ring', 'Gandalf left', ...Array.from({ length: 6 }, (_, index) => `Walked on, day ${index + 1}`)];
+
+    const { dynamicContent } = await buildPrompt(gameState, 'I walk', 'en', memoryWith(contents, [0, 7]));
+
+    expect(dynamicContent).toContain('BILBO NEVER FORGETS:\n1 April 2941, 8:00: I found a ring\n\nRECENT EVENTS:');
+    expect(dynamicContent).not.toContain('Gandalf left');
+    expect(dynamicContent.match(/Walked on, day 6/g)).toHaveLength(1);
+
+    const { dynamicContent: unpinned } = await buildPrompt(gameState, 'I walk', 'en', memoryWith(contents));
+    expect(unpinned).toContain('BILBO NEVER FORGETS:\nnothing in particular');
+  });
+
+  it('falls back to raw history without a memory table', async () => {
+    const gameState = await loadInitialState('en');
+    gameState.history = [
+      { content: 'A knock at the door', type: 'world', location: gameState.location, time: gameState.time },
+      { content: 'Current event', type: 'world', location: gameState.location, time: gameState.time }
+    ];
+
+    const { dynamicContent } = await buildPrompt(gameState, 'I listen', 'en', memoryWith([]));
+
+    expect(dynamicContent).toContain('A knock at the door');
+  });
+
+  it('falls back to Russian templates for unknown languages', async () => {
+    const gameState = await loadInitialState('en');
+    const { dynamicContent } = await buildPrompt(gameState, 'I wait', 'xx', memoryWith([]));
+
+    expect(dynamicContent).toContain('I wait');
+    expect(dynamicContent).not.toContain('CURRENT SITUATION');
+  });
+});
+
+describe('parseGameResponse', () => {
+  it('extracts JSON wrapped in prose and code fences', () => {
+    const parsed = parseGameResponse('Here is the turn:\n```json\n{"reaction": "Bilbo bowed", "importance": 0.3}\n```');
+    expect(parsed).toEqual({ reaction: 'Bilbo bowed', importance: 0.3 });
+  });
+
+  it('repairs trailing commas, single quotes and comments', () => {
+    const parsed = parseGameResponse("{'reaction': 'Bilbo bowed', // polite\n \"newEmotions\": ['joy',],}");
+    expect(parsed).toEqual({ reaction: 'Bilbo bowed', newEmotions: ['joy'] });
+  });
+
+  it('throws when the response has no JSON', () => {
+    expect(() => parseGameResponse('Bilbo bowed.')).toThrow('No JSON found in response');
+  });
+});
+
+describe('validatePromptTemplates', () => {
+  it('accepts the templates of every language', async () => {
+    await expect(validatePromptTemplates()).resolves.toBeUndefined();
+  });
+
+  it('lists every broken or missing template', async () => {
+    const localesDir = await fs.mkdtemp(path.join(os.tmpdir(), 'hobbit-locales-'));
+    try {
+      await fs.mkdir(path.join(localesDir, 'xx'));
+      await fs.writeFile(path.join(localesDir, 'xx', 'rules.md'), 'Respond in JSON');
+      await fs.writeFile(path.join(localesDir, 'xx', 'prompt.md'), 'Location: {{locaton}}\n{{#each plans}}{{this}}');
+
+      await expect(validatePromptTemplates(localesDir)).rejects.toThrow('Prompt templates have errors:\nxx/prompt.md: line 2: {{#each plans}} is never closed');
+
+      await fs.writeFile(path.join(localesDir, 'xx', 'prompt.md'), 'Location: {{locaton}}');
+      await fs.rm(path.join(localesDir, 'xx', 'rules.md'));
+      await expect(validatePromptTemplates(localesDir)).rejects.toThrow('xx/rules.md: missing\nxx/prompt.md: line 1: unknown variable "locaton"');
+    } finally {
+      await fs.rm(localesDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,196 @@
+import path from 'path';
+import { fileURLToPath } from 'url';
+import fs from 'fs/promises';
+import { parsePartialJson } from 'ai';
+import { jsonrepair } from 'jsonrepair';
+import { broadcastLog } from './logs';
+import { describeTime } from './calendar';
+import { describeRoutes, loadGeography } from './geography';
+import type { MemoryStore } from './memory';
+import { compileTemplate, TemplateData, TemplateVariables } from './templates';
+import type { GameState, MemoryRecord } from './types';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const LOCALES_DIR = path.join(__dirname, '../public/locales');
+export const RECENT_HISTORY_SIZE = 6;
+
+// ========================
+// PROMPT BUILDING
+// ========================
+
+// What rules.md and prompt.md can use; see templates.ts for the syntax
+export const PROMPT_VARIABLES: TemplateVariables = {
+  language: 'value',
+  location: 'value',
+  time: 'value',
+  timeContext: 'value',
+  environment: 'list',
+  routes: 'value',
+  // Only the characters in the scene
+  characters: { name: 'value', race: 'value', disposition: 'value', facts: 'list' },
+  character: 'value',
+  characterEvolution: 'value',
+  plans: 'list',
+  health: 'value',
+  tasks: 'list',
+  thoughts: 'list',
+  emotions: 'list',
+  inventory: { item: 'value', quantity: 'value', condition: 'value', acquired: 'value' },
+  pinnedMemories: { time: 'value', content: 'value' },
+  recentHistory: 'list',
+  event: 'value',
+  action: 'value'
+};
+
+const TEMPLATE_FILES = ['rules.md', 'prompt.md'];
+
+async function readTemplates(language: string): Promise<[string, string]> {
+  const read = (file: string) => fs.readFile(path.join(LOCALES_DIR, language, file), 'utf8');
+  return [await read('rules.md'), await read('prompt.md')];
+}
+
+export async function buildPrompt(
+  gameState: GameState,
+  action: string,
+  language: string,
+  memory: MemoryStore
+): Promise<{ rulesContent: string, dynamicContent: string }> {
+  let rulesTemplate: string;
+  let dynamicTemplate: string;
+
+  try {
+    [rulesTemplate, dynamicTemplate] = await readTemplates(language);
+  } catch (error) {
+    broadcastLog(`⚠️ Prompt files not found for language ${language}, falling back to Russian`);
+    [rulesTemplate, dynamicTemplate] = await readTemplates('ru');
+  }
+
+  // Use recent memories instead of raw history for context
+  let recentHistory: string[] = [];
+  let pinnedMemories: MemoryRecord[] = [];
+  let useMemories = false;
+
+  try {
+    if (memory.hasTable()) {
+      // Memories come newest first, take the most recent ones
+      const allMemories = await memory.list();
+
+      // Reverse order for chronological flow in prompt (oldest first → newest last)
+      recentHistory = allMemories.slice(0, RECENT_HISTORY_SIZE).map(record => record.content).reverse();
+
+      // Pinned memories are always there, oldest first, unless they are recent anyway
+      pinnedMemories = allMemories.slice(RECENT_HISTORY_SIZE).filter(record => record.pinned).reverse();
+
+      useMemories = true;
+    }
+  } catch (error) {
+    broadcastLog('📚 Memory error, falling back to raw history');
+  }
+
+  if (!useMemories) {
+    // Fallback to raw history if no memories available or error occurred
+    recentHistory = (gameState.history || []).slice(-(RECENT_HISTORY_SIZE + 1), -1).map(entry => entry.content);
+    broadcastLog('📚 Using raw history');
+  }
+
+  // Empty values are left empty; each language's template says what to write instead
+  const data: TemplateData = {
+    language,
+    location: `${gameState.location.region}, ${gameState.location.settlement}, ${gameState.location.place}`,
+    time: `${gameState.time.day} ${gameState.time.month} ${gameState.time.year} ${gameState.time.era}, ${gameState.time.time}`,
+    timeContext: describeTime(gameState.time, language),
+    environment: gameState.environment || [],
+    routes: describeRoutes(await loadGeography(), gameState.location, language),
+    characters: (gameState.characters || [])
+      .filter(character => character.present)
+      .map(({ name, race, disposition, facts }) => ({ name, race, disposition, facts })),
+    character: gameState.bilboState.character,
+    characterEvolution: gameState.bilboState.characterEvolution,
+    plans: gameState.bilboState.plans || [],
+    health: gameState.bilboState.health,
+    tasks: gameState.bilboState.tasks || [],
+    thoughts: gameState.bilboState.thoughts || [],
+    emotions: gameState.bilboState.emotions || [],
+    inventory: gameState.bilboState.inventory || [],
+    pinnedMemories: pinnedMemories.map(record => ({ time: record.time, content: record.content })),
+    recentHistory,
+    event: gameState.event,
+    action
+  };
+
+  return {
+    rulesContent: compileTemplate(rulesTemplate).render(data),
+    dynamicContent: compileTemplate(dynamicTemplate).render(data)
+  };
+}
+
+// Every language's templates must parse and use only known variables; checked at startup
+export async function validatePromptTemplates(localesDir: string = LOCALES_DIR): Promise<void> {
+  const issues: string[] = [];
+  const entries = await fs.readdir(localesDir, { withFileTypes: true });
+
+  for (const entry of entries.filter(entry => entry.isDirectory())) {
+    for (const file of TEMPLATE_FILES) {
+      const name = `${entry.name}/${file}`;
+      let source: string;
+      try {
+        source = await fs.readFile(path.join(localesDir, entry.name, file), 'utf8');
+      } catch {
+        issues.push(`${name}: missing`);
+        continue;
+      }
+
+      try {
+        issues.push(...compileTemplate(source).check(PROMPT_VARIABLES).map(issue => `${name}: ${issue}`));
+      } catch (error: any) {
+        issues.push(`${name}: ${error.message}`);
+      }
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new Error(`Prompt templates have errors:\n${issues.join('\n')}`);
+  }
+}
+
+
+// ========================
+// RESPONSE PARSING
+// ========================
+
+export function parseGameResponse(responseText: string): any {
+  // Extract JSON block from markdown/text
+  const jsonMatch = responseText.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    throw new Error('No JSON found in response');
+  }
+
+  const jsonStr = jsonMatch[0];
+
+  try {
+    // Rely exclusively on jsonrepair to handle any formatting quirks
+    const repairedJson = jsonrepair(jsonStr);
+    return JSON.parse(repairedJson);
+  } catch (error: any) {
+    broadcastLog(`❌ JSON parse error: ${error.message}\nRaw JSON: ${jsonStr.substring(0, 100)}...`);
+    throw error;
+  }
+}
+
+// Pull the narrative fields out of a JSON response that is still being written
+export async function extractPartialNarrative(responseText: string): Promise<{ reaction: string, worldResponse: string }> {
+  const jsonStart = responseText.indexOf('{');
+  if (jsonStart === -1) {
+    return { reaction: '', worldResponse: '' };
+  }
+
+  const { value } = await parsePartialJson(responseText.slice(jsonStart));
+  const partial: any = value && typeof value === 'object' && !Array.isArray(value) ? value : {};
+
+  return {
+    reaction: typeof partial.reaction === 'string' ? partial.reaction : '',
+    worldResponse: typeof partial.worldResponse === 'string' ? partial.worldResponse : ''
+  };
+}
@@ -0,0 +1,96 @@
+import { z } from 'zod';
+
+// ========================
+// RESPONSE CONTRACT
+// ========================
+
+// Mirrors the "JSON RESPONSE FORMAT" block in public/locales/*/rules.md
+
+const timeSchema = z.object({
+  day: z.number().int().min(1).max(31),
+  month: z.string().min(1),
+  year: z.number().int(),
+  era: z.string().min(1),
+  time: z.string().regex(/^([01]?\d|2[0-3]):[0-5]\d$/, 'must be "hour:minute" in 24 hour format')
+});
+
+const locationSchema = z.object({
+  region: z.string().min(1),
+  settlement: z.string(),
+  place: z.string().min(1)
+});
+
+const quantitySchema = z.number().int().min(1).default(1);
+
+export const gameResponseSchema = z.object({
+  ai_thinking: z.string().optional(),
+  reaction: z.string().min(1),
+  memory: z.string(),
+  worldResponse: z.string().min(1),
+  importance: z.number().min(0).max(1),
+  newCharacterEvolution: z.number().min(-100).max(100),
+  newCharacter: z.string().min(1),
+  newEmotions: z.array(z.string()),
+  newThoughts: z.array(z.string()),
+  newPlans: z.array(z.string()),
+  newTask: z.array(z.string()),
+  newHealth: z.string().min(1),
+  newTime: timeSchema,
+  newEnvironment: z.array(z.string()),
+  // Only present when Bilbo moved
+  newLocation: locationSchema.nullish(),
+  // Inventory changes this turn; older answers without them change nothing
+  itemsGained: z.array(z.object({
+    item: z.string().min(1),
+    quantity: quantitySchema,
+    condition: z.string().min(1)
+  })).default([]),
+  itemsLost: z.array(z.object({
+    item: z.string().min(1),
+    quantity: quantitySchema
+  })).default([]),
+  itemsUsed: z.array(z.object({
+    item: z.string().min(1),
+    condition: z.string().optional()
+  })).default([]),
+  // Everyone in the scene after this turn, plus anyone whose attitude toward Bilbo changed
+  characters: z.array(z.object({
+    name: z.string().min(1),
+    race: z.string().default(''),
+    present: z.boolean().default(true),
+    disposition: z.string().min(1),
+    newFacts: z.array(z.string()).default([])
+  })).default([])
+});
+
+export type GameResponse = z.infer<typeof gameResponseSchema>;
+
+// ========================
+// ERRORS
+// ========================
+
+// Raised when the model keeps answering outside the contract after all repair attempts
+export class GameResponseError extends Error {
+  readonly code = 'INVALID_RESPONSE';
+
+  constructor(public readonly issues: string[]) {
+    super(`LLM response failed validation: ${issues.join('; ')}`);
+    this.name = 'GameResponseError';
+  }
+}
+
+export function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => {
+    const fieldPath = issue.path.length > 0 ? issue.path.join('.') : '(root)';
+    return `${fieldPath}: ${issue.message}`;
+  });
+}
+
+export function buildRepairPrompt(issues: string[]): string {
+  return [
+    'Your previous response does not match the required JSON response format:',
+    ...issues.map(issue => `- ${issue}`),
+    '',
+    'Reply again with the complete corrected JSON object only, keeping the same story.'
+  ].join('\n');
+}
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_SCORING, emotionalMatch, scoreMemory } from './retrieval';
+
+describe('emotionalMatch', () => {
+  it('compares emotion words in any language', () => {
+    expect(emotionalMatch('fear, curiosity', ['growing fear'])).toBe(0.5);
+    expect(emotionalMatch('fear, curiosity', ['fear'])).toBe(1);
+    expect(emotionalMatch('страх, любопытство', ['любопытство', 'голод', 'усталость'])).toBe(0.5);
+    expect(emotionalMatch('calm', ['fear'])).toBe(0);
+    expect(emotionalMatch('', ['fear'])).toBe(0);
+  });
+});
+
+describe('scoreMemory', () => {
+  it('averages the factors by their weights', () => {
+    const factors = { similarity: 0.8, keyword: 1, importance: 0.6, newer: DEFAULT_SCORING.recencyHalfLife, emotions: 'fear' };
+
+    expect(scoreMemory(factors, ['fear'], DEFAULT_SCORING)).toEqual({ total: 0.817, similarity: 0.8, keyword: 1, importance: 0.6, recency: 0.5, emotion: 1 });
+    expect(scoreMemory(factors, ['fear'], { ...DEFAULT_SCORING, keyword: 0 }).total).toBe(0.725);
+  });
+
+  it('ranks by similarity alone when the other weights are off', () => {
+    const config = { ...DEFAULT_SCORING, keyword: 0, importance: 0, recency: 0, emotion: 0 };
+
+    expect(scoreMemory({ similarity: 0.42, keyword: 1, importance: 1, newer: 0, emotions: 'fear' }, ['fear'], config).total).toBe(0.42);
+  });
+});
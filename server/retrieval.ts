@@ -0,0 +1,80 @@
+// ========================
+// RETRIEVAL SCORING
+// ========================
+
+// How much each factor counts when ranking memories found for a query
+export interface ScoringWeights {
+  similarity: number;
+  keyword: number; // exact words of the query, in keyword and hybrid search
+  importance: number;
+  recency: number;
+  emotion: number; // overlap with what Bilbo feels now
+}
+
+export interface ScoringConfig extends ScoringWeights {
+  recencyHalfLife: number; // memories saved since, for recency to halve
+}
+
+export const DEFAULT_SCORING: ScoringConfig = {
+  similarity: 1,
+  keyword: 1,
+  importance: 0.5,
+  recency: 0.3,
+  emotion: 0.2,
+  recencyHalfLife: 50
+};
+
+// Every factor in 0..1, and their weighted average
+export interface MemoryScore {
+  total: number;
+  similarity: number;
+  keyword: number;
+  importance: number;
+  recency: number;
+  emotion: number;
+}
+
+const emotionWords = (text: string) => new Set((text.toLowerCase().match(/[\p{L}]{3,}/gu) || []));
+
+// Share of the smaller set of emotion words found in the other one
+export function emotionalMatch(memoryEmotions: string, currentEmotions: string[]): number {
+  const remembered = emotionWords(memoryEmotions);
+  const current = emotionWords(currentEmotions.join(' '));
+  if (remembered.size === 0 || current.size === 0) return 0;
+
+  const shared = [...remembered].filter(word => current.has(word)).length;
+  return shared / Math.min(remembered.size, current.size);
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+// `newer` is how many memories were saved after this one
+export function scoreMemory(
+  factors: { similarity: number; keyword: number; importance: number; newer: number; emotions: string },
+  currentEmotions: string[],
+  config: ScoringConfig = DEFAULT_SCORING
+): MemoryScore {
+  const clamp = (value: number) => Math.max(0, Math.min(1, value));
+  const values: ScoringWeights = {
+    similarity: clamp(factors.similarity),
+    keyword: clamp(factors.keyword),
+    importance: clamp(factors.importance),
+    recency: Math.pow(0.5, factors.newer / config.recencyHalfLife),
+    emotion: emotionalMatch(factors.emotions, currentEmotions)
+  };
+
+  const names = Object.keys(values) as Array<keyof ScoringWeights>;
+  const weights = names.reduce((sum, name) => sum + config[name], 0);
+  const total = weights > 0
+    ? names.reduce((sum, name) => sum + values[name] * config[name], 0) / weights
+    : values.similarity;
+
+  return {
+    total: round(total),
+    similarity: round(values.similarity),
+    keyword: round(values.keyword),
+    importance: round(values.importance),
+    recency: round(values.recency),
+    emotion: round(values.emotion)
+  };
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { migrateSave, SaveFormatError, SAVE_FORMAT_VERSION } from './saveFormat';
+import { loadInitialState } from './testUtils';
+
+// A file as downloaded by the browser before saves moved to the server
+async function legacySave(overrides: Record<string, any> = {}) {
+  const gameState: any = await loadInitialState('en');
+  delete gameState.bilboState.plans;
+  delete gameState.bilboState.characterEvolution;
+  delete gameState.bilboState.inventory;
+  delete gameState.characters;
+  delete gameState.plot;
+
+  return {
+    gameState,
+    memories: [
+      { id: '2', content: 'Bombur fell into the river', time: '', location: '', importance: 0.5, emotions: 'worry' },
+      { id: '1', content: 'I found a ring in the dark', time: '', location: '', importance: 0.9, emotions: 'awe' }
+    ],
+    timestamp: '2024-05-01T10:00:00.000Z',
+    version: '1.0',
+    ...overrides
+  };
+}
+
+describe('migrateSave', () => {
+  it('upgrades a browser save and reports the fixes', async () => {
+    const { save, report } = migrateSave(await legacySave());
+
+    expect(save.version).toBe(SAVE_FORMAT_VERSION);
+    expect(save.gameState.bilboState.plans).toEqual([]);
+    expect(save.gameState.bilboState.characterEvolution).toBe(0);
+    expect(save.memories[0].createdAt).toBeGreaterThan(save.memories[1].createdAt);
+    expect(report.fromVersion).toBe(1);
+    expect(report.fixed).toEqual([
+      'gameState.bilboState.plans: missing, set to []',
+      'gameState.bilboState.characterEvolution: missing, set to 0',
+      'memories: 2 without createdAt, ordered by their position in the save',
+      'gameState.bilboState.inventory: missing, set to []',
+      'gameState.characters: missing, set to []',
+      'gameState.plot: missing, set to []'
+    ]);
+  });
+
+  it('gives slots saved before the inventory, the character roster and the plot tracker empty ones', async () => {
+    const { save: slot } = migrateSave(await legacySave());
+    const { inventory, ...bilboState } = slot.gameState.bilboState;
+    const { characters, plot, ...gameState } = slot.gameState;
+
+    const { save, report } = migrateSave({ ...slot, version: 2, gameState: { ...gameState, bilboState } });
+
+    expect(save.gameState.bilboState.inventory).toEqual([]);
+    expect(save.gameState.characters).toEqual([]);
+    expect(save.gameState.plot).toEqual([]);
+    expect(save.embedding).toBeNull();
+    expect(report.fromVersion).toBe(2);
+    expect(report.fixed).toEqual([
+      'gameState.bilboState.inventory: missing, set to []',
+      'gameState.characters: missing, set to []',
+      'gameState.plot: missing, set to []'
+    ]);
+  });
+
+  it('drops invalid memories and keeps the rest', async () => {
+    const legacy = await legacySave();
+    legacy.memories.push({ id: '3', content: '', time: '', location: '', importance: 7, emotions: '' });
+
+    const { save, report } = migrateSave(legacy);
+
+    expect(save.memories).toHaveLength(2);
+    expect(report.dropped).toHaveLength(1);
+    expect(report.dropped[0]).toMatch(/^memories\[2\]: /);
+  });
+
+  it('rejects saves from a newer version', async () => {
+    const newer = await legacySave({ version: SAVE_FORMAT_VERSION + 1 });
+    expect(() => migrateSave(newer)).toThrow(/newer version of the game/);
+  });
+
+  it('rejects saves with a damaged game state', async () => {
+    const legacy = await legacySave();
+    legacy.gameState.location = 'Bag End';
+
+    try {
+      migrateSave(legacy);
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(SaveFormatError);
+      expect((error as SaveFormatError).issues).toEqual([expect.stringMatching(/^gameState\.location: /)]);
+    }
+  });
+});
@@ -0,0 +1,271 @@
+import { z } from 'zod';
+import { formatIssues } from './responseSchema';
+import type { EmbeddingInfo, MemoryInput } from './memory';
+import type { GameState } from './types';
+
+// ========================
+// SAVE FORMAT
+// ========================
+
+// Format history:
+// 1 - file downloaded by the browser: { version: '1.0', timestamp, gameState, memories without embeddings }
+// 2 - server save slot: slot metadata at the top level, memories keep their embeddings
+// 3 - Bilbo's inventory is part of his state
+// 4 - roster of the characters Bilbo has met
+// 5 - progress through the beats of the book
+// 6 - the embedding model the memories' vectors were made with
+export const SAVE_FORMAT_VERSION = 6;
+
+const timeSchema = z.object({
+  day: z.number().int(),
+  month: z.string(),
+  year: z.number().int(),
+  era: z.string(),
+  time: z.string()
+});
+
+const locationSchema = z.object({
+  region: z.string(),
+  settlement: z.string(),
+  place: z.string()
+});
+
+// Also the shape of every locale's state.json
+export const gameStateSchema = z.object({
+  bilboState: z.object({
+    character: z.string(),
+    characterEvolution: z.number(),
+    health: z.string(),
+    tasks: z.array(z.string()),
+    plans: z.array(z.string()),
+    thoughts: z.array(z.string()),
+    emotions: z.array(z.string()),
+    inventory: z.array(z.object({
+      item: z.string().min(1),
+      quantity: z.number().int().min(1),
+      condition: z.string(),
+      acquired: z.string()
+    }))
+  }),
+  location: locationSchema,
+  time: timeSchema,
+  environment: z.array(z.string()),
+  event: z.string(),
+  characters: z.array(z.object({
+    name: z.string().min(1),
+    race: z.string(),
+    present: z.boolean(),
+    disposition: z.string(),
+    lastSeen: z.object({ location: locationSchema, time: timeSchema }),
+    facts: z.array(z.string())
+  })),
+  plot: z.array(z.object({
+    beat: z.string(),
+    status: z.enum(['reached', 'altered', 'skipped']),
+    time: timeSchema
+  })),
+  history: z.array(z.object({
+    content: z.string(),
+    type: z.enum(['bilbo', 'world']),
+    description: z.string().optional(),
+    location: locationSchema,
+    time: timeSchema
+  }))
+});
+
+const memorySchema = z.object({
+  id: z.string(),
+  content: z.string().min(1),
+  embeddings: z.array(z.number()).optional(),
+  time: z.string(),
+  location: z.string(),
+  importance: z.number().min(0).max(1),
+  emotions: z.string(),
+  createdAt: z.number(),
+  episodeId: z.string().optional(),
+  sources: z.string().optional(),
+  reinforcedAt: z.string().optional(),
+  pinned: z.boolean().optional()
+});
+
+const saveSchema = z.object({
+  version: z.literal(SAVE_FORMAT_VERSION),
+  id: z.string(),
+  name: z.string(),
+  kind: z.enum(['manual', 'autosave']),
+  sessionId: z.string(),
+  savedAt: z.number(),
+  gameState: gameStateSchema,
+  embedding: z.object({ model: z.string(), dimension: z.number().int().min(1) }).nullable(),
+  memories: z.array(z.unknown())
+});
+
+export type SavedMemory = MemoryInput;
+
+export interface SaveData {
+  version: number;
+  id: string;
+  name: string;
+  kind: 'manual' | 'autosave';
+  sessionId: string;
+  savedAt: number;
+  gameState: GameState;
+  // Null when the save does not say; the memories' vectors are then only kept if their length fits the current model
+  embedding: EmbeddingInfo | null;
+  memories: SavedMemory[];
+}
+
+// What happened to a save on its way to the current format
+export interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  fixed: string[];
+  dropped: string[];
+}
+
+// ========================
+// ERRORS
+// ========================
+
+export class SaveFormatError extends Error {
+  constructor(public readonly code: 'NEWER_VERSION' | 'INVALID_SAVE', message: string, public readonly issues: string[] = []) {
+    super(message);
+    this.name = 'SaveFormatError';
+  }
+}
+
+// ========================
+// MIGRATIONS
+// ========================
+
+type Migration = (save: any, report: MigrationReport) => any;
+
+// Fill a missing or mistyped field, noting the fix in the report
+function ensureField(target: any, key: string, fallback: any, fieldPath: string, report: MigrationReport) {
+  const valid = Array.isArray(fallback) ? Array.isArray(target[key]) : typeof target[key] === typeof fallback;
+  if (!valid) {
+    report.fixed.push(`${fieldPath}: missing, set to ${JSON.stringify(fallback)}`);
+    target[key] = fallback;
+  }
+}
+
+// Keyed by the version a migration upgrades from
+const migrations: Record<number, Migration> = {
+  1: (save, report) => {
+    const savedAt = Date.parse(save.timestamp) || Date.now();
+    const gameState = { ...save.gameState };
+    gameState.bilboState = { ...gameState.bilboState };
+
+    // Saves from before plans and character evolution were tracked
+    ensureField(gameState.bilboState, 'plans', [], 'gameState.bilboState.plans', report);
+    ensureField(gameState.bilboState, 'characterEvolution', 0, 'gameState.bilboState.characterEvolution', report);
+    for (const key of ['tasks', 'thoughts', 'emotions']) {
+      ensureField(gameState.bilboState, key, [], `gameState.bilboState.${key}`, report);
+    }
+    ensureField(gameState, 'environment', [], 'gameState.environment', report);
+    ensureField(gameState, 'event', '', 'gameState.event', report);
+    ensureField(gameState, 'history', [], 'gameState.history', report);
+
+    // Memories were exported newest first, so their position still gives the order
+    const memories = Array.isArray(save.memories) ? save.memories : [];
+    let missingCreatedAt = 0;
+    const upgraded = memories.map((memory: any, index: number) => {
+      if (typeof memory?.createdAt === 'number') return memory;
+      missingCreatedAt++;
+      return { ...memory, createdAt: savedAt - index };
+    });
+    if (missingCreatedAt > 0) {
+      report.fixed.push(`memories: ${missingCreatedAt} without createdAt, ordered by their position in the save`);
+    }
+
+    return {
+      version: 2,
+      id: '',
+      name: new Date(savedAt).toLocaleString(),
+      kind: 'manual',
+      sessionId: '',
+      savedAt,
+      gameState,
+      memories: upgraded
+    };
+  },
+
+  // Items used to live only in memories; they are not recovered from there
+  2: (save, report) => {
+    const gameState = { ...save.gameState };
+    gameState.bilboState = { ...gameState.bilboState };
+    ensureField(gameState.bilboState, 'inventory', [], 'gameState.bilboState.inventory', report);
+    return { ...save, version: 3, gameState };
+  },
+
+  // Characters only lived in the story text and memories
+  3: (save, report) => {
+    const gameState = { ...save.gameState };
+    ensureField(gameState, 'characters', [], 'gameState.characters', report);
+    return { ...save, version: 4, gameState };
+  },
+
+  // Older playthroughs start the plot tracker from where they are
+  4: (save, report) => {
+    const gameState = { ...save.gameState };
+    ensureField(gameState, 'plot', [], 'gameState.plot', report);
+    return { ...save, version: 5, gameState };
+  },
+
+  // Which model made the saved vectors was not written down
+  5: (save) => ({ ...save, version: 6, embedding: null })
+};
+
+// "1.0" and 1 are the same format; saves without a version predate versioning
+function detectVersion(save: any): number {
+  if (save.version === undefined) return 1;
+  const version = typeof save.version === 'string' ? parseInt(save.version, 10) : save.version;
+  if (!Number.isInteger(version) || version < 1) {
+    throw new SaveFormatError('INVALID_SAVE', `Unrecognized save version: ${JSON.stringify(save.version)}`);
+  }
+  return version;
+}
+
+// Upgrade a save of any known version to the current format and validate it.
+// Invalid memories are dropped and reported; an invalid game state rejects the whole save.
+export function migrateSave(raw: unknown): { save: SaveData, report: MigrationReport } {
+  if (!raw || typeof raw !== 'object' || !('gameState' in raw)) {
+    throw new SaveFormatError('INVALID_SAVE', 'This file is not a saved game');
+  }
+
+  const fromVersion = detectVersion(raw);
+  if (fromVersion > SAVE_FORMAT_VERSION) {
+    throw new SaveFormatError(
+      'NEWER_VERSION',
+      `This save was made by a newer version of the game (save format ${fromVersion}, this version reads up to ${SAVE_FORMAT_VERSION}). Update the game to load it.`
+    );
+  }
+
+  const report: MigrationReport = { fromVersion, toVersion: SAVE_FORMAT_VERSION, fixed: [], dropped: [] };
+  let save: any = raw;
+  for (let version = fromVersion; version < SAVE_FORMAT_VERSION; version++) {
+    save = migrations[version](save, report);
+  }
+
+  const parsed = saveSchema.safeParse(save);
+  if (!parsed.success) {
+    const issues = formatIssues(parsed.error);
+    throw new SaveFormatError('INVALID_SAVE', `The save is damaged: ${issues.join('; ')}`, issues);
+  }
+
+  const memories: SavedMemory[] = [];
+  parsed.data.memories.forEach((memory, index) => {
+    const result = memorySchema.safeParse(memory);
+    if (result.success) {
+      memories.push(result.data);
+    } else {
+      report.dropped.push(`memories[${index}]: ${formatIssues(result.error).join('; ')}`);
+    }
+  });
+
+  return { save: { ...parsed.data, memories }, report };
+}
+
+export function hasChanges(report: MigrationReport): boolean {
+  return report.fromVersion !== report.toVersion || report.fixed.length > 0 || report.dropped.length > 0;
+}
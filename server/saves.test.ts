@@ -0,0 +1,101 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { Embedder } from './embedding';
+import { connectMemoryDatabase, createMemoryStore, MemoryStore } from './memory';
+import { createSaveStore } from './saves';
+import type { GameState } from './types';
+import { createHashEmbedder, loadInitialState } from './testUtils';
+
+let savesDir: string;
+
+beforeEach(async () => {
+  savesDir = await fs.mkdtemp(path.join(os.tmpdir(), 'hobbit-saves-'));
+});
+
+afterEach(async () => {
+  await fs.rm(savesDir, { recursive: true, force: true });
+});
+
+const emptyMemory = {
+  list: async () => [],
+  embeddingStatus: () => ({ model: 'hash-64', recorded: null, stale: false })
+} as unknown as MemoryStore;
+
+// A memory table of its own inside the saves directory
+async function memoryWith(embed: Embedder, tableName: string) {
+  const store = createMemoryStore({ database: await connectMemoryDatabase(path.join(savesDir, 'memory_db')), tableName, embed });
+  await store.initialize();
+  return store;
+}
+
+function withTurns(gameState: GameState, turns: number): GameState {
+  const entry = { content: 'I bow', type: 'bilbo' as const, location: gameState.location, time: gameState.time };
+  return { ...gameState, history: Array.from({ length: turns }, () => entry) };
+}
+
+describe('createSaveStore', () => {
+  it('rotates autosaves through the oldest slot', async () => {
+    const saves = createSaveStore({ savesDir, autosaveEvery: 2, autosaveSlots: 2 });
+    const gameState = await loadInitialState('en');
+
+    expect(await saves.autosave('game', withTurns(gameState, 1), emptyMemory)).toBeNull();
+    for (const turns of [2, 4, 6]) {
+      await saves.autosave('game', withTurns(gameState, turns), emptyMemory);
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+
+    const listed = await saves.list();
+    expect(listed.map(save => [save.name, save.turnCount])).toEqual([['Autosave 1', 6], ['Autosave 2', 4]]);
+  });
+
+  it('keeps autosave slots of different sessions apart', async () => {
+    const saves = createSaveStore({ savesDir, autosaveEvery: 1, autosaveSlots: 1 });
+    const gameState = withTurns(await loadInitialState('en'), 1);
+
+    await saves.autosave('first', gameState, emptyMemory);
+    await saves.autosave('second', gameState, emptyMemory);
+
+    expect((await saves.list()).map(save => save.sessionId).sort()).toEqual(['first', 'second']);
+  });
+
+  it('ignores malformed save ids', async () => {
+    const saves = createSaveStore({ savesDir });
+
+    expect(await saves.load('../escape', emptyMemory)).toBeNull();
+    expect(await saves.delete('../escape')).toBe(false);
+  });
+
+  it('embeds saved memories again when another model made their vectors', async () => {
+    const saves = createSaveStore({ savesDir });
+    const gameState = await loadInitialState('en');
+    const original = await memoryWith(createHashEmbedder(32), 'original');
+    await original.save({ content: 'I found a ring in the dark', importance: 0.9, emotions: '', time: '', location: '' });
+    const { id } = await saves.create('Before the switch', 'original', gameState, original);
+
+    const restored = await memoryWith(createHashEmbedder(64), 'restored');
+    await saves.load(id, restored);
+
+    expect(restored.embeddingStatus()).toEqual({ model: 'hash-64', recorded: { model: 'hash-64', dimension: 64 }, stale: false });
+    expect((await restored.list())[0].embeddings).toHaveLength(64);
+    expect((await restored.find('ring in the dark', 1, 0.5)).map(result => result.content)).toEqual(['I found a ring in the dark']);
+  });
+
+  it('keeps vectors of the current dimension from saves that do not name their model', async () => {
+    const saves = createSaveStore({ savesDir });
+    const gameState = await loadInitialState('en');
+    const memory = (id: string, embeddings: number[]) =>
+      ({ id, content: `Memory ${id}`, embeddings, time: '', location: '', importance: 0.5, emotions: '', createdAt: Number(id) });
+
+    const restored = await memoryWith(createHashEmbedder(64), 'restored');
+    await saves.import({
+      version: 5, id: '', name: 'old', kind: 'manual', sessionId: '', savedAt: 0, gameState,
+      memories: [memory('1', await createHashEmbedder(32)('Memory 1')), memory('2', Array(64).fill(0.125))]
+    }, restored);
+
+    const listed = await restored.list();
+    expect(listed.map(record => [record.id, record.embeddings.length])).toEqual([['2', 64], ['1', 64]]);
+    expect(Array.from(listed[0].embeddings)).toEqual(Array(64).fill(0.125));
+  });
+});
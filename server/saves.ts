@@ -0,0 +1,229 @@
+import crypto from 'crypto';
+import path from 'path';
+import fs from 'fs/promises';
+import { broadcastLog } from './logs';
+import { toPlainRecord, EmbeddingInfo, MemoryStore } from './memory';
+import { migrateSave, hasChanges, MigrationReport, SaveData, SAVE_FORMAT_VERSION } from './saveFormat';
+import type { GameState, Location, MemoryRecord, Time } from './types';
+
+// ========================
+// SAVE SLOTS
+// ========================
+
+export const DEFAULT_AUTOSAVE_EVERY = 5;
+export const DEFAULT_AUTOSAVE_SLOTS = 3;
+const SAVE_ID_PATTERN = /^[\w-]{1,100}$/;
+
+export type SaveKind = 'manual' | 'autosave';
+
+// What the save/load dialog shows without reading the whole game
+export interface SavePreview {
+  id: string;
+  name: string;
+  kind: SaveKind;
+  sessionId: string;
+  savedAt: number;
+  location: Location;
+  time: Time;
+  turnCount: number;
+  memoryCount: number;
+}
+
+export interface SaveFile extends SavePreview {
+  version: number;
+  gameState: GameState;
+  embedding: EmbeddingInfo | null;
+  memories: MemoryRecord[];
+}
+
+export interface LoadedSave {
+  gameState: GameState;
+  report: MigrationReport;
+}
+
+export interface SaveStore {
+  list(): Promise<SavePreview[]>;
+  create(name: string, sessionId: string, gameState: GameState, memory: MemoryStore): Promise<SavePreview>;
+  overwrite(id: string, sessionId: string, gameState: GameState, memory: MemoryStore): Promise<SavePreview | null>;
+  load(id: string, memory: MemoryStore): Promise<LoadedSave | null>;
+  import(raw: unknown, memory: MemoryStore): Promise<LoadedSave>;
+  export(id: string): Promise<SaveFile | null>;
+  delete(id: string): Promise<boolean>;
+  autosave(sessionId: string, gameState: GameState, memory: MemoryStore): Promise<SavePreview | null>;
+}
+
+// Turns are counted by Bilbo's entries; world entries include the opening event
+export function countTurns(gameState: GameState): number {
+  return gameState.history.filter(entry => entry.type === 'bilbo').length;
+}
+
+function toPreview(save: SaveFile): SavePreview {
+  const { version, gameState, embedding, memories, ...preview } = save;
+  return preview;
+}
+
+function logReport(name: string, report: MigrationReport) {
+  if (!hasChanges(report)) return;
+  broadcastLog(`🔧 Upgraded ${name} from save format ${report.fromVersion} to ${report.toVersion}`);
+  for (const fix of report.fixed) broadcastLog(`🔧 Fixed ${fix}`);
+  for (const drop of report.dropped) broadcastLog(`⚠️ Dropped ${drop}`);
+}
+
+// One JSON file per slot holding the game state and every memory with its embeddings
+export function createSaveStore(options: { savesDir: string, autosaveEvery?: number, autosaveSlots?: number }): SaveStore {
+  const {
+    savesDir,
+    autosaveEvery = DEFAULT_AUTOSAVE_EVERY,
+    autosaveSlots = DEFAULT_AUTOSAVE_SLOTS
+  } = options;
+
+  const filePath = (id: string) => path.join(savesDir, `${id}.json`);
+
+  async function readRaw(id: string): Promise<unknown | null> {
+    if (!SAVE_ID_PATTERN.test(id)) return null;
+    try {
+      return JSON.parse(await fs.readFile(filePath(id), 'utf8'));
+    } catch {
+      return null;
+    }
+  }
+
+  // Older slots are upgraded in memory; throws SaveFormatError for unreadable ones
+  async function read(id: string): Promise<{ save: SaveData, report: MigrationReport } | null> {
+    const raw = await readRaw(id);
+    return raw === null ? null : migrateSave(raw);
+  }
+
+  // Slot metadata without validating the whole game; autosave rotation only needs `savedAt`
+  async function readPreview(id: string): Promise<SavePreview | null> {
+    const raw = await readRaw(id);
+    return raw === null ? null : toPreview(raw as SaveFile);
+  }
+
+  // Replace the session's memories in one step; saved embeddings are reused when the current model made them
+  async function restore(save: SaveData, memory: MemoryStore) {
+    await memory.addMany(save.memories, { replace: true, embedding: save.embedding });
+  }
+
+  async function write(save: Omit<SaveFile, 'version' | 'location' | 'time' | 'turnCount' | 'memoryCount' | 'embedding' | 'memories'>, memory: MemoryStore): Promise<SavePreview> {
+    const memories = (await memory.list({ includeArchived: true })).map(toPlainRecord);
+    const file: SaveFile = {
+      ...save,
+      version: SAVE_FORMAT_VERSION,
+      // The model that made the vectors in the table, which is not the current one while the table is stale
+      embedding: memory.embeddingStatus().recorded,
+      location: save.gameState.location,
+      time: save.gameState.time,
+      turnCount: countTurns(save.gameState),
+      memoryCount: memories.filter(record => !record.episodeId).length,
+      memories
+    };
+
+    await fs.mkdir(savesDir, { recursive: true });
+    await fs.writeFile(filePath(save.id), JSON.stringify(file), 'utf8');
+    return toPreview(file);
+  }
+
+  // Newest first
+  async function list(): Promise<SavePreview[]> {
+    let fileNames: string[];
+    try {
+      fileNames = await fs.readdir(savesDir);
+    } catch {
+      return [];
+    }
+
+    const saves = await Promise.all(fileNames
+      .filter(fileName => fileName.endsWith('.json'))
+      .map(fileName => readPreview(path.basename(fileName, '.json'))));
+
+    return saves
+      .filter((save): save is SavePreview => save !== null)
+      .sort((a, b) => b.savedAt - a.savedAt);
+  }
+
+  async function create(name: string, sessionId: string, gameState: GameState, memory: MemoryStore): Promise<SavePreview> {
+    const preview = await write({ id: crypto.randomUUID(), name, kind: 'manual', sessionId, savedAt: Date.now(), gameState }, memory);
+    broadcastLog(`💾 Saved "${name}" (${preview.memoryCount} memories)`);
+    return preview;
+  }
+
+  async function overwrite(id: string, sessionId: string, gameState: GameState, memory: MemoryStore): Promise<SavePreview | null> {
+    const existing = await readPreview(id);
+    if (!existing) return null;
+
+    const preview = await write({ id, name: existing.name, kind: existing.kind, sessionId, savedAt: Date.now(), gameState }, memory);
+    broadcastLog(`💾 Overwrote "${existing.name}" (${preview.memoryCount} memories)`);
+    return preview;
+  }
+
+  async function load(id: string, memory: MemoryStore): Promise<LoadedSave | null> {
+    const loaded = await read(id);
+    if (!loaded) return null;
+
+    const { save, report } = loaded;
+    await restore(save, memory);
+    logReport(save.name, report);
+    broadcastLog(`📂 Loaded "${save.name}" (${save.memories.length} memories)`);
+    return { gameState: save.gameState, report };
+  }
+
+  // A save file brought in from outside, possibly from an older version of the game
+  async function importSave(raw: unknown, memory: MemoryStore): Promise<LoadedSave> {
+    const { save, report } = migrateSave(raw);
+    await restore(save, memory);
+    logReport('imported save', report);
+    broadcastLog(`📥 Imported save (${save.memories.length} memories)`);
+    return { gameState: save.gameState, report };
+  }
+
+  async function exportSave(id: string): Promise<SaveFile | null> {
+    const raw = await readRaw(id);
+    return raw === null ? null : raw as SaveFile;
+  }
+
+  async function remove(id: string): Promise<boolean> {
+    if (!(await readRaw(id))) return false;
+
+    await fs.rm(filePath(id), { force: true });
+    broadcastLog(`🗑️ Deleted save ${id}`);
+    return true;
+  }
+
+  // Every `autosaveEvery` turns, write into the session's oldest autosave slot
+  async function autosave(sessionId: string, gameState: GameState, memory: MemoryStore): Promise<SavePreview | null> {
+    const turnCount = countTurns(gameState);
+    if (autosaveEvery <= 0 || autosaveSlots <= 0 || turnCount === 0 || turnCount % autosaveEvery !== 0) {
+      return null;
+    }
+
+    const slotIds = Array.from({ length: autosaveSlots }, (_, index) => `autosave-${sessionId}-${index + 1}`);
+    const slots = await Promise.all(slotIds.map(readPreview));
+    const emptyIndex = slots.findIndex(slot => slot === null);
+    const slotIndex = emptyIndex !== -1
+      ? emptyIndex
+      : slots.reduce((oldest, slot, index) => slot!.savedAt < slots[oldest]!.savedAt ? index : oldest, 0);
+
+    const preview = await write({
+      id: slotIds[slotIndex],
+      name: `Autosave ${slotIndex + 1}`,
+      kind: 'autosave',
+      sessionId,
+      savedAt: Date.now(),
+      gameState
+    }, memory);
+    broadcastLog(`💾 Autosaved turn ${turnCount} to slot ${slotIndex + 1}`);
+    return preview;
+  }
+
+  return {
+    list,
+    create,
+    overwrite,
+    load,
+    import: importSave,
+    export: exportSave,
+    delete: remove,
+    autosave
+  };
+}
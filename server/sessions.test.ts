@@ -0,0 +1,67 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { connectMemoryDatabase } from './memory';
+import { createSessionManager } from './sessions';
+import { createHashEmbedder } from './testUtils';
+
+let dbPath: string;
+
+beforeEach(async () => {
+  dbPath = await fs.mkdtemp(path.join(os.tmpdir(), 'hobbit-sessions-'));
+});
+
+afterEach(async () => {
+  await fs.rm(dbPath, { recursive: true, force: true });
+});
+
+describe('createSessionManager', () => {
+  it('keeps sessions across restarts', async () => {
+    const sessions = createSessionManager({ dbPath, embed: createHashEmbedder() });
+    await sessions.initialize();
+    const session = await sessions.create('Riddles game');
+    await (await sessions.get(session.id))!.save({ content: 'I won the riddle game', importance: 0.9, emotions: 'relief', time: '', location: '' });
+
+    const restarted = createSessionManager({ dbPath, embed: createHashEmbedder() });
+    await restarted.initialize();
+
+    expect(await restarted.list()).toEqual([expect.objectContaining({ id: session.id, name: 'Riddles game', memoryCount: 1 })]);
+  });
+
+  it('registers the pre-session memory table as the default session', async () => {
+    const database = await connectMemoryDatabase(dbPath);
+    const embed = createHashEmbedder();
+    await database.createTable('bilbo_memories', [{
+      id: '1', content: 'Old memory', embeddings: await embed('Old memory'), time: '', location: '', importance: 0.5, emotions: '', createdAt: 1
+    }]);
+
+    const sessions = createSessionManager({ dbPath, embed });
+    await sessions.initialize();
+
+    const memory = await sessions.get('default');
+    expect((await memory!.list()).map(record => record.content)).toEqual(['Old memory']);
+  });
+
+  it('re-indexes only the sessions embedded with another model', async () => {
+    const sessions = createSessionManager({ dbPath, embed: createHashEmbedder() });
+    await sessions.initialize();
+    const session = await sessions.create('Riddles game');
+    await sessions.create('Empty game');
+    await (await sessions.get(session.id))!.save({ content: 'I won the riddle game', importance: 0.9, emotions: 'relief', time: '', location: '' });
+
+    const restarted = createSessionManager({ dbPath, embed: createHashEmbedder(32) });
+    await restarted.initialize();
+
+    expect(await restarted.reindexStale()).toBe(1);
+    expect((await restarted.get(session.id))!.embeddingStatus()).toEqual({ model: 'hash-32', recorded: { model: 'hash-32', dimension: 32 }, stale: false });
+    expect(await restarted.reindexStale()).toBe(0);
+  });
+
+  it('ignores malformed session ids', async () => {
+    const sessions = createSessionManager({ dbPath, embed: createHashEmbedder() });
+    await sessions.initialize();
+
+    expect(await sessions.get('../escape')).toBeNull();
+  });
+});
@@ -0,0 +1,154 @@
+import crypto from 'crypto';
+import path from 'path';
+import fs from 'fs/promises';
+import { broadcastLog } from './logs';
+import type { Embedder } from './embedding';
+import { connectMemoryDatabase, createMemoryStore, MemoryStore } from './memory';
+import type { ScoringConfig } from './retrieval';
+import type { Location, Time } from './types';
+
+// ========================
+// GAME SESSIONS
+// ========================
+
+// Memories from before sessions existed live in this table and become the "default" session
+const LEGACY_TABLE_NAME = 'bilbo_memories';
+const LEGACY_SESSION_ID = 'default';
+const SESSIONS_FILE = 'sessions.json';
+const SESSION_ID_PATTERN = /^[\w-]{1,64}$/;
+
+// Where a branch split off its parent: the entry it was forked at and what the parent did next
+export interface ForkPoint {
+  entryIndex: number;
+  turn: number;
+  location: Location;
+  time: Time;
+  parentIntention: string | null;
+}
+
+export interface SessionInfo {
+  id: string;
+  name: string;
+  createdAt: number;
+  parentId?: string;
+  fork?: ForkPoint;
+}
+
+interface SessionRecord extends SessionInfo {
+  tableName: string;
+}
+
+export interface SessionManager {
+  initialize(): Promise<void>;
+  list(): Promise<Array<SessionInfo & { memoryCount: number }>>;
+  create(name?: string, origin?: { parentId: string, fork: ForkPoint }): Promise<SessionInfo>;
+  get(id: string): Promise<MemoryStore | null>;
+  delete(id: string): Promise<boolean>;
+  reindexStale(): Promise<number>;
+}
+
+// Sessions share one LanceDB directory; the registry is a JSON file next to the tables
+export function createSessionManager(options: { dbPath: string, embed: Embedder, scoring?: ScoringConfig }): SessionManager {
+  const { dbPath, embed, scoring } = options;
+  const registryPath = path.join(dbPath, SESSIONS_FILE);
+  let database: any = null;
+  let sessions: SessionRecord[] = [];
+  const stores = new Map<string, MemoryStore>();
+
+  async function persist() {
+    await fs.writeFile(registryPath, JSON.stringify(sessions, null, 2), 'utf8');
+  }
+
+  async function initialize() {
+    await fs.mkdir(dbPath, { recursive: true });
+    database = await connectMemoryDatabase(dbPath);
+
+    try {
+      sessions = JSON.parse(await fs.readFile(registryPath, 'utf8'));
+    } catch {
+      sessions = [];
+    }
+
+    const tableNames: string[] = await database.tableNames();
+    if (tableNames.includes(LEGACY_TABLE_NAME) && !sessions.some(session => session.id === LEGACY_SESSION_ID)) {
+      sessions.push({ id: LEGACY_SESSION_ID, name: 'Default', createdAt: Date.now(), tableName: LEGACY_TABLE_NAME });
+      await persist();
+      broadcastLog('🧠 Existing memories registered as the "default" session');
+    }
+
+    broadcastLog(`🧠 Memory database ready (${sessions.length} sessions)`);
+  }
+
+  async function get(id: string): Promise<MemoryStore | null> {
+    const session = sessions.find(s => s.id === id);
+    if (!session) return null;
+
+    let store = stores.get(id);
+    if (!store) {
+      store = createMemoryStore({ database, tableName: session.tableName, embed, scoring });
+      await store.initialize();
+      stores.set(id, store);
+    }
+    return store;
+  }
+
+  async function list() {
+    return Promise.all(sessions.map(async ({ tableName, ...session }) => {
+      const store = await get(session.id);
+      return { ...session, memoryCount: store ? await store.count() : 0 };
+    }));
+  }
+
+  async function create(name?: string, origin?: { parentId: string, fork: ForkPoint }): Promise<SessionInfo> {
+    const id = crypto.randomUUID();
+    const session: SessionRecord = {
+      id,
+      name: name || `Playthrough ${sessions.length + 1}`,
+      createdAt: Date.now(),
+      tableName: `memories_${id}`,
+      ...origin
+    };
+
+    sessions.push(session);
+    await persist();
+    broadcastLog(`🆕 Created session "${session.name}" (${id})`);
+
+    const { tableName, ...info } = session;
+    return info;
+  }
+
+  async function remove(id: string): Promise<boolean> {
+    const store = await get(id);
+    if (!store) return false;
+
+    await store.clear();
+    stores.delete(id);
+    sessions = sessions.filter(session => session.id !== id);
+    await persist();
+    broadcastLog(`🗑️ Deleted session ${id}`);
+    return true;
+  }
+
+  // Re-embed the sessions written with another embedding model; returns how many were re-indexed
+  async function reindexStale(): Promise<number> {
+    let reindexed = 0;
+    for (const session of sessions) {
+      const store = await get(session.id);
+      if (store?.embeddingStatus().stale) {
+        await store.reindex();
+        reindexed++;
+      }
+    }
+    broadcastLog(`🔁 ${reindexed} of ${sessions.length} sessions needed re-indexing`);
+    return reindexed;
+  }
+
+  return {
+    initialize,
+    list,
+    create,
+    get: (id: string) => SESSION_ID_PATTERN.test(id) ? get(id) : Promise.resolve(null),
+    delete: remove,
+    reindexStale
+  };
+}
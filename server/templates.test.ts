@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { compileTemplate, TemplateError, TemplateVariables } from './templates';
+
+const variables: TemplateVariables = {
+  name: 'value',
+  emotions: 'list',
+  memories: { time: 'value', content: 'value' }
+};
+
+describe('compileTemplate', () => {
+  it('fills every occurrence of a variable and joins lists', () => {
+    const template = compileTemplate('{{name}} and {{name}} feel {{emotions}}');
+
+    expect(template.render({ name: 'Bilbo', emotions: ['fear', 'hope'] })).toBe('Bilbo and Bilbo feel fear; hope');
+  });
+
+  it('renders conditionals with empty text and lists as false', () => {
+    const template = compileTemplate('{{#if emotions}}{{emotions}}{{else}}calm{{/if}}/{{#unless name}}nobody{{/unless}}');
+
+    expect(template.render({ name: ' ', emotions: [] })).toBe('calm/nobody');
+    expect(template.render({ name: 'Bilbo', emotions: ['joy'] })).toBe('joy/');
+  });
+
+  it('repeats loops with the item, its fields and its position', () => {
+    const template = compileTemplate(
+      '{{#each memories}}{{@index}}. {{time}}: {{content}} ({{name}}){{#unless @last}}, {{/unless}}{{else}}none{{/each}}|' +
+      '{{#each emotions}}{{#if @first}}[{{/if}}{{this}}{{#if @last}}]{{/if}}{{/each}}'
+    );
+
+    expect(template.render({
+      name: 'Bilbo',
+      memories: [{ time: 'morning', content: 'tea' }, { time: 'night', content: 'riddles' }],
+      emotions: ['fear']
+    })).toBe('1. morning: tea (Bilbo), 2. night: riddles (Bilbo)|[fear]');
+    expect(template.render({ name: 'Bilbo', memories: [], emotions: [] })).toBe('none|');
+  });
+
+  it('reports syntax errors with their line', () => {
+    expect(() => compileTemplate('a\n{{#if name}}b')).toThrow(new TemplateError('line 2: {{#if name}} is never closed'));
+    expect(() => compileTemplate('{{#each memories}}{{/if}}')).toThrow('line 1: {{/if}} does not close {{#each}} from line 1');
+    expect(() => compileTemplate('{{#with name}}{{/with}}')).toThrow('line 1: unknown block {{#with name}}');
+    expect(() => compileTemplate('{{else}}')).toThrow('line 1: {{else}} outside a block');
+    expect(() => compileTemplate('{{name | upper}}')).toThrow('line 1: cannot read {{name | upper}}');
+  });
+
+  it('checks that only known variables are used, and used the right way', () => {
+    const template = compileTemplate([
+      '{{nmae}}',
+      '{{memories}}',
+      '{{#each name}}{{/each}}',
+      '{{#each memories}}{{content}}{{this}}{{/each}}',
+      '{{#each emotions}}{{this}}{{content}}{{/each}}',
+      '{{@index}}'
+    ].join('\n'));
+
+    expect(template.check(variables)).toEqual([
+      'line 1: unknown variable "nmae"',
+      'line 2: "memories" is a list of records, use {{#each memories}}',
+      'line 3: "name" is not a list',
+      'line 4: unknown variable "this"',
+      'line 5: unknown variable "content"',
+      'line 6: unknown variable "@index"'
+    ]);
+  });
+});
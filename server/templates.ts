@@ -0,0 +1,178 @@
+// ========================
+// TEMPLATES
+// ========================
+
+// The prompt files use a small Handlebars-like language:
+//   {{name}}                                 a value; lists of values are joined with "; "
+//   {{#if name}}...{{else}}...{{/if}}        empty text and empty lists count as false; {{#unless}} is the opposite
+//   {{#each name}}...{{else}}...{{/each}}    once per item, the else part when there are none
+// Inside {{#each}}, {{this}} is the item, the fields of a record are variables,
+// and {{@index}} (from 1), {{@first}} and {{@last}} tell where the item is.
+
+// The variables a template may use: a value, a list of values, or a list of records with these fields
+export type TemplateVariables = { [name: string]: 'value' | 'list' | TemplateVariables };
+
+export type TemplateData = Record<string, unknown>;
+
+type Block = 'if' | 'unless' | 'each';
+
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'variable'; name: string; line: number }
+  | { type: Block; name: string; line: number; body: TemplateNode[]; otherwise: TemplateNode[] };
+
+export interface Template {
+  // Problems with the variables the template uses, as "line N: message"
+  check(variables: TemplateVariables): string[];
+  render(data: TemplateData): string;
+}
+
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+const NAME = /^(@?\w+)$/;
+const LOOP_VARIABLES = ['@index', '@first', '@last'];
+
+function parse(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // Open blocks, innermost last; `nodes` is where their children go right now
+  const stack: Array<{ node: Extract<TemplateNode, { body: TemplateNode[] }>, nodes: TemplateNode[], inElse: boolean }> = [];
+  const current = () => stack.length > 0 ? stack[stack.length - 1].nodes : root;
+
+  const tags = /\{\{([^{}]*)\}\}/g;
+  let position = 0;
+  for (const match of source.matchAll(tags)) {
+    const line = source.slice(0, match.index).split('\n').length;
+    if (match.index! > position) current().push({ type: 'text', text: source.slice(position, match.index) });
+    position = match.index! + match[0].length;
+
+    const tag = match[1].trim();
+    const [head, name, ...rest] = tag.split(/\s+/);
+
+    if (head.startsWith('#')) {
+      const type = head.slice(1);
+      if (type !== 'if' && type !== 'unless' && type !== 'each') throw new TemplateError(`line ${line}: unknown block {{${tag}}}`);
+      if (!name || rest.length > 0 || !NAME.test(name)) throw new TemplateError(`line ${line}: {{${head}}} needs one variable name`);
+      const node = { type, name, line, body: [], otherwise: [] } as Extract<TemplateNode, { body: TemplateNode[] }>;
+      current().push(node);
+      stack.push({ node, nodes: node.body, inElse: false });
+    } else if (head === 'else' && !name) {
+      const open = stack[stack.length - 1];
+      if (!open || open.inElse) throw new TemplateError(`line ${line}: {{else}} outside a block`);
+      open.inElse = true;
+      open.nodes = open.node.otherwise;
+    } else if (head.startsWith('/')) {
+      const open = stack.pop();
+      if (!open || open.node.type !== head.slice(1) || name) {
+        throw new TemplateError(`line ${line}: {{${tag}}} does not close ${open ? `{{#${open.node.type}}} from line ${open.node.line}` : 'any block'}`);
+      }
+    } else if (NAME.test(tag)) {
+      current().push({ type: 'variable', name: tag, line });
+    } else {
+      throw new TemplateError(`line ${line}: cannot read {{${tag}}}`);
+    }
+  }
+
+  if (stack.length > 0) {
+    const open = stack[stack.length - 1].node;
+    throw new TemplateError(`line ${open.line}: {{#${open.type} ${open.name}}} is never closed`);
+  }
+  if (position < source.length) root.push({ type: 'text', text: source.slice(position) });
+  return root;
+}
+
+// Scopes are searched innermost first
+type Kind = TemplateVariables[string];
+
+function lookupKind(scopes: Array<Record<string, Kind>>, name: string): Kind | undefined {
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    if (name in scopes[i]) return scopes[i][name];
+  }
+  return undefined;
+}
+
+function checkNodes(nodes: TemplateNode[], scopes: Array<Record<string, Kind>>, issues: string[]) {
+  for (const node of nodes) {
+    if (node.type === 'text') continue;
+
+    const kind = lookupKind(scopes, node.name);
+    if (kind === undefined) {
+      issues.push(`line ${node.line}: unknown variable "${node.name}"`);
+      continue;
+    }
+
+    if (node.type === 'variable') {
+      if (typeof kind === 'object') issues.push(`line ${node.line}: "${node.name}" is a list of records, use {{#each ${node.name}}}`);
+      continue;
+    }
+
+    if (node.type === 'each') {
+      if (kind === 'value') {
+        issues.push(`line ${node.line}: "${node.name}" is not a list`);
+        continue;
+      }
+      const item: Record<string, Kind> = Object.fromEntries(LOOP_VARIABLES.map(name => [name, 'value' as Kind]));
+      checkNodes(node.body, [...scopes, typeof kind === 'object' ? { ...kind, ...item } : { ...item, this: 'value' }], issues);
+    } else {
+      checkNodes(node.body, scopes, issues);
+    }
+    checkNodes(node.otherwise, scopes, issues);
+  }
+}
+
+function lookup(scopes: TemplateData[], name: string): unknown {
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    if (name in scopes[i]) return scopes[i][name];
+  }
+  return undefined;
+}
+
+const isTruthy = (value: unknown) =>
+  Array.isArray(value) ? value.length > 0 : typeof value === 'string' ? value.trim() !== '' : Boolean(value);
+
+const display = (value: unknown): string =>
+  value === null || value === undefined ? '' : Array.isArray(value) ? value.map(display).join('; ') : String(value);
+
+function renderNodes(nodes: TemplateNode[], scopes: TemplateData[]): string {
+  let output = '';
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      output += node.text;
+      continue;
+    }
+
+    const value = lookup(scopes, node.name);
+    if (node.type === 'variable') {
+      output += display(value);
+    } else if (node.type === 'each') {
+      const items = Array.isArray(value) ? value : [];
+      output += items.length === 0 ? renderNodes(node.otherwise, scopes) : items.map((item, index) => renderNodes(node.body, [...scopes, {
+        ...(item !== null && typeof item === 'object' ? item : {}),
+        this: item,
+        '@index': index + 1,
+        '@first': index === 0,
+        '@last': index === items.length - 1
+      }])).join('');
+    } else {
+      output += renderNodes(isTruthy(value) === (node.type === 'if') ? node.body : node.otherwise, scopes);
+    }
+  }
+  return output;
+}
+
+// Parse once, render many times; syntax errors throw a TemplateError naming the line
+export function compileTemplate(source: string): Template {
+  const nodes = parse(source);
+  return {
+    check: (variables: TemplateVariables) => {
+      const issues: string[] = [];
+      checkNodes(nodes, [variables], issues);
+      return issues;
+    },
+    render: (data: TemplateData) => renderNodes(nodes, [data])
+  };
+}
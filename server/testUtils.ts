@@ -0,0 +1,101 @@
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import fs from 'fs/promises';
+import type { AppContext } from './app';
+import type { Embedder } from './embedding';
+import { createSaveStore } from './saves';
+import { createSessionManager } from './sessions';
+import { createTurnHistory } from './turns';
+import { createMockLanguageModel } from './mockModel';
+import type { GameState } from './types';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// ========================
+// TEST HELPERS
+// ========================
+
+// Bag-of-words vectors: texts sharing words end up close, no model download needed
+export function createHashEmbedder(dimensions: number = 64): Embedder {
+  const embed: Embedder = async (text: string) => {
+    const vector = new Array(dimensions).fill(0);
+    for (const word of text.toLowerCase().match(/[\p{L}\d]+/gu) || []) {
+      let hash = 0;
+      for (const char of word) {
+        hash = (hash * 31 + char.codePointAt(0)!) % dimensions;
+      }
+      vector[hash] += 1;
+    }
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+    return vector.map(value => value / norm);
+  };
+  embed.model = `hash-${dimensions}`;
+  return embed;
+}
+
+// A response that satisfies the rules.md contract; override fields per test
+export function sampleResponse(overrides: Record<string, any> = {}) {
+  return {
+    ai_thinking: 'Bilbo answers the door.',
+    reaction: 'Bilbo opened the round green door.',
+    memory: 'Gandalf the wizard knocked at my door this morning.',
+    worldResponse: 'Gandalf leaned on his staff and smiled.',
+    importance: 0.5,
+    newCharacterEvolution: 1,
+    newCharacter: 'friendly, thoughtful hobbit',
+    newEmotions: ['surprise'],
+    newThoughts: ['Who is this wizard?'],
+    newPlans: ['to rest'],
+    newTask: ['greet the guest'],
+    newHealth: 'healthy',
+    newTime: { day: 22, month: 'September', year: 2941, era: 'Third Age', time: '8:10' },
+    newEnvironment: ['open door'],
+    newLocation: { region: 'The Shire', settlement: 'Hobbiton', place: 'Bag End' },
+    ...overrides
+  };
+}
+
+export async function loadInitialState(language: string = 'en'): Promise<GameState> {
+  const statePath = path.join(__dirname, `../public/locales/${language}/state.json`);
+  return JSON.parse(await fs.readFile(statePath, 'utf8'));
+}
+
+// App context backed by a temp directory and a scripted model answering in order
+export async function createTestContext(
+  responses: Array<string | object>,
+  saveOptions: { autosaveEvery?: number, autosaveSlots?: number } = {}
+): Promise<{ context: AppContext, cleanup: () => Promise<void> }> {
+  const rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'hobbit-'));
+  const dbPath = path.join(rootDir, 'memory_db');
+
+  const languageModel = createMockLanguageModel({
+    version: 1,
+    entries: responses.map(response => ({
+      content: [{ type: 'text', text: typeof response === 'string' ? response : JSON.stringify(response) }]
+    }))
+  }, 'script');
+
+  const embed = createHashEmbedder();
+  const sessions = createSessionManager({ dbPath, embed });
+  await sessions.initialize();
+
+  const saves = createSaveStore({ savesDir: path.join(rootDir, 'saves'), ...saveOptions });
+
+  const context: AppContext = {
+    config: { api: { llm: { provider: 'mock', model: 'mock' } } },
+    languageModel,
+    consolidationModel: null,
+    embed,
+    sessions,
+    saves,
+    turns: createTurnHistory({ dir: path.join(rootDir, 'turns') }),
+    logFile: null
+  };
+
+  return {
+    context,
+    cleanup: () => fs.rm(rootDir, { recursive: true, force: true })
+  };
+}
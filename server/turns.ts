@@ -0,0 +1,184 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { broadcastLog } from './logs';
+import type { GameState } from './types';
+
+// ========================
+// TURN SNAPSHOTS
+// ========================
+
+const SESSION_ID_PATTERN = /^[\w-]{1,64}$/;
+
+// The game state right before a turn was played with `action`, numbered by `sequence` within the session.
+// The history is not copied: it is the first `historyLength` entries of the current one.
+// Memories with `createdAt` at or after `takenAt` were created by that turn or a later one.
+export interface TurnSnapshot {
+  sequence: number;
+  gameState: Omit<GameState, 'history'>;
+  historyLength: number;
+  action: string;
+  takenAt: number;
+}
+
+// Everything the server knows about one session's timeline. `settledAt` is when the latest
+// turn finished, after its memories were saved.
+interface Timeline {
+  snapshots: TurnSnapshot[];
+  current: GameState | null;
+  nextSequence: number;
+  settledAt: number;
+}
+
+export interface RewindResult {
+  gameState: GameState;
+  since: number;
+}
+
+// Where a copied timeline starts; `since` is null when it was copied at its latest state
+export interface BranchResult {
+  gameState: GameState;
+  since: number | null;
+  turn: number;
+  nextAction: string | null;
+}
+
+export interface TurnHistory {
+  record(sessionId: string, gameState: GameState, action: string): Promise<number>;
+  discard(sessionId: string, sequence: number): Promise<void>;
+  rewind(sessionId: string, entryIndex?: number): Promise<RewindResult | null>;
+  locate(sessionId: string, entryIndex?: number): Promise<BranchResult | null>;
+  branch(fromSessionId: string, toSessionId: string, entryIndex?: number): Promise<BranchResult | null>;
+  snapshots(sessionId: string): Promise<TurnSnapshot[]>;
+  getCurrent(sessionId: string): Promise<GameState | null>;
+  setCurrent(sessionId: string, gameState: GameState): Promise<void>;
+  clear(sessionId: string): Promise<void>;
+}
+
+// One JSON file per session with its snapshots and latest game state
+export function createTurnHistory(options: { dir: string }): TurnHistory {
+  const { dir } = options;
+
+  const filePath = (sessionId: string) => path.join(dir, `${sessionId}.json`);
+
+  const emptyTimeline = (): Timeline => ({ snapshots: [], current: null, nextSequence: 0, settledAt: 0 });
+
+  // Files from before snapshots were numbered hold a full game state in every snapshot
+  function upgrade(timeline: any): Timeline {
+    const snapshots: TurnSnapshot[] = timeline.snapshots.map((snapshot: any, index: number) => {
+      if (snapshot.sequence !== undefined) return snapshot;
+      const { history, ...gameState } = snapshot.gameState;
+      return { sequence: index, gameState, historyLength: history.length, action: snapshot.action, takenAt: snapshot.takenAt };
+    });
+    return {
+      snapshots,
+      current: timeline.current,
+      nextSequence: timeline.nextSequence ?? snapshots.length,
+      settledAt: timeline.settledAt ?? 0
+    };
+  }
+
+  async function read(sessionId: string): Promise<Timeline> {
+    if (!SESSION_ID_PATTERN.test(sessionId)) return emptyTimeline();
+    try {
+      return upgrade(JSON.parse(await fs.readFile(filePath(sessionId), 'utf8')));
+    } catch {
+      return emptyTimeline();
+    }
+  }
+
+  async function write(sessionId: string, timeline: Timeline) {
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(filePath(sessionId), JSON.stringify(timeline), 'utf8');
+  }
+
+  // Index of the snapshot in which history entry `entryIndex` is the latest one;
+  // -1 when that entry is part of the current state
+  const snapshotAt = (snapshots: TurnSnapshot[], entryIndex: number) =>
+    snapshots.findIndex(snapshot => snapshot.historyLength > entryIndex);
+
+  // The full state of a snapshot, its history taken from the timeline it belongs to
+  const restore = (snapshot: TurnSnapshot, current: GameState | null): GameState =>
+    ({ ...snapshot.gameState, history: (current?.history || []).slice(0, snapshot.historyLength) });
+
+  // Called before each turn; returns the snapshot's sequence number. Snapshots at or beyond this point
+  // belong to turns that were retried or abandoned, so they are replaced.
+  async function record(sessionId: string, gameState: GameState, action: string): Promise<number> {
+    const timeline = await read(sessionId);
+    const { history, ...state } = gameState;
+    const snapshots = timeline.snapshots.filter(snapshot => snapshot.historyLength < history.length);
+    const sequence = timeline.nextSequence;
+
+    // Memories of the previous turn were saved by `settledAt`, so they stay strictly before this snapshot
+    snapshots.push({ sequence, gameState: state, historyLength: history.length, action, takenAt: Math.max(Date.now(), timeline.settledAt + 1) });
+    await write(sessionId, { ...timeline, snapshots, current: gameState, nextSequence: sequence + 1 });
+    return sequence;
+  }
+
+  // Called when the turn recorded as `sequence` failed; its snapshot equals the current state,
+  // so undoing to it would change nothing
+  async function discard(sessionId: string, sequence: number) {
+    const timeline = await read(sessionId);
+    const snapshots = timeline.snapshots.filter(snapshot => snapshot.sequence !== sequence);
+    await write(sessionId, { ...timeline, snapshots });
+  }
+
+  // Go back to the state in which history entry `entryIndex` was the latest one,
+  // or undo the last turn when no entry is given
+  async function rewind(sessionId: string, entryIndex?: number): Promise<RewindResult | null> {
+    const timeline = await read(sessionId);
+    const { snapshots } = timeline;
+    const targetIndex = entryIndex === undefined ? snapshots.length - 1 : snapshotAt(snapshots, entryIndex);
+    if (targetIndex < 0) return null;
+
+    const target = snapshots[targetIndex];
+    const gameState = restore(target, timeline.current);
+    await write(sessionId, { ...timeline, snapshots: snapshots.slice(0, targetIndex), current: gameState });
+    broadcastLog(`⏪ Rewound ${snapshots.length - targetIndex} turns`);
+    return { gameState, since: target.takenAt };
+  }
+
+  // The state a branch taken at history entry `entryIndex` (or at the latest state) starts from
+  async function locate(sessionId: string, entryIndex?: number): Promise<BranchResult | null> {
+    const { snapshots, current } = await read(sessionId);
+    const targetIndex = entryIndex === undefined ? -1 : snapshotAt(snapshots, entryIndex);
+
+    if (targetIndex < 0) {
+      return current && { gameState: current, since: null, turn: snapshots.length, nextAction: null };
+    }
+
+    const target = snapshots[targetIndex];
+    return { gameState: restore(target, current), since: target.takenAt, turn: targetIndex, nextAction: target.action };
+  }
+
+  // Copy a timeline up to that point into another session
+  async function branch(fromSessionId: string, toSessionId: string, entryIndex?: number): Promise<BranchResult | null> {
+    const located = await locate(fromSessionId, entryIndex);
+    if (!located) return null;
+
+    const timeline = await read(fromSessionId);
+    await write(toSessionId, { ...timeline, snapshots: timeline.snapshots.slice(0, located.turn), current: located.gameState });
+    return located;
+  }
+
+  async function setCurrent(sessionId: string, gameState: GameState) {
+    const timeline = await read(sessionId);
+    await write(sessionId, { ...timeline, current: gameState, settledAt: Date.now() });
+  }
+
+  async function clear(sessionId: string) {
+    if (!SESSION_ID_PATTERN.test(sessionId)) return;
+    await fs.rm(filePath(sessionId), { force: true });
+  }
+
+  return {
+    record,
+    discard,
+    rewind,
+    locate,
+    branch,
+    snapshots: async (sessionId: string) => (await read(sessionId)).snapshots,
+    getCurrent: async (sessionId: string) => (await read(sessionId)).current,
+    setCurrent,
+    clear
+  };
+}
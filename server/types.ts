@@ -0,0 +1,117 @@
+import type { EmbeddingConfig } from './embedding';
+import type { LlmConfig } from './llm';
+import type { ScoringConfig } from './retrieval';
+
+// ========================
+// TYPES & INTERFACES
+// ========================
+
+export interface GameConfig {
+  api: {
+    llm: LlmConfig;
+    embedding?: string | EmbeddingConfig; // a model name, or the model with its offline settings
+  };
+  saves?: {
+    autosaveEvery?: number; // turns between autosaves, 0 disables them
+    autosaveSlots?: number;
+  };
+  memory?: {
+    scoring?: Partial<ScoringConfig>; // weights for ranking memories found for a query
+  };
+}
+
+export interface InventoryItem {
+  item: string;
+  quantity: number;
+  condition: string;
+  acquired: string; // where and when Bilbo got it
+}
+
+export interface BilboState {
+  character: string;
+  characterEvolution: number; // Accumulated character changes: +good, -evil
+  health: string;
+  tasks: string[];
+  plans: string[];
+  thoughts: string[];
+  emotions: string[];
+  inventory: InventoryItem[];
+}
+
+export interface Location {
+  region: string;
+  settlement: string;
+  place: string;
+}
+
+export interface Time {
+  day: number;
+  month: string;
+  year: number;
+  era: string;
+  time: string;
+}
+
+export interface HistoryEntry {
+  content: string;
+  type: 'bilbo' | 'world';
+  description?: string;
+  location: Location;
+  time: Time;
+}
+
+// Someone Bilbo has met, as the world remembers them
+export interface Character {
+  name: string;
+  race: string;
+  present: boolean; // in the current scene
+  disposition: string; // attitude toward Bilbo
+  lastSeen: { location: Location; time: Time };
+  facts: string[];
+}
+
+// How a beat of the book went in this playthrough; beats not listed are still ahead
+export interface PlotProgress {
+  beat: string;
+  status: 'reached' | 'altered' | 'skipped';
+  time: Time;
+}
+
+export interface GameState {
+  bilboState: BilboState;
+  location: Location;
+  time: Time;
+  environment: string[];
+  event: string;
+  characters: Character[];
+  plot: PlotProgress[];
+  history: HistoryEntry[];
+}
+
+export interface ApiResponse {
+  reaction: string;
+  worldResponse: string;
+  usage: { total: number };
+  elapsedHours: number | null; // in-game time the turn took, null when the dates cannot be read
+  gameState: GameState;
+}
+
+// Events pushed to the browser while a turn is being generated
+export type TurnStreamEvent =
+  | { type: 'partial'; reaction: string; worldResponse: string }
+  | { type: 'tool'; status: 'call' | 'result'; toolName: string; input?: any };
+
+export interface MemoryRecord {
+  id: string;
+  content: string;
+  embeddings: number[];
+  time: string;
+  location: string;
+  importance: number;
+  emotions: string;
+  createdAt: number;
+  episodeId: string; // the episode this memory was merged into, '' while it is recalled on its own
+  sources: string; // for episodes, the ids of the merged memories, comma separated
+  reinforcedAt: string; // in-game time since which its importance fades
+  pinned: boolean; // always in the prompt, never faded or merged
+}
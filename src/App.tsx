@@ -5,6 +5,13 @@ import { useTranslation } from 'react-i18next';
 // TYPES
 // ========================
 
+interface InventoryItem {
+  item: string;
+  quantity: number;
+  condition: string;
+  acquired: string;
+}
+
 interface BilboState {
   character: string;
   characterEvolution: number; // Accumulated character changes: +good, -evil
@@ -13,6 +20,7 @@ interface BilboState {
   thoughts: string[];
   emotions: string[];
   plans: string[];
+  inventory: InventoryItem[];
 }
 
 interface Location {
@@ -37,12 +45,30 @@ interface HistoryEntry {
   time: Time;
 }
 
+interface Character {
+  name: string;
+  race: string;
+  present: boolean;
+  disposition: string;
+  lastSeen: { location: Location; time: Time };
+  facts: string[];
+}
+
+// How a beat of the book went; beats not listed are still ahead
+interface PlotProgress {
+  beat: string;
+  status: 'reached' | 'altered' | 'skipped';
+  time: Time;
+}
+
 interface GameState {
   bilboState: BilboState;
   location: Location;
   time: Time;
   environment: string[];
   event: string;
+  characters: Character[];
+  plot: PlotProgress[];
   history: HistoryEntry[];
 }
 
@@ -53,6 +79,93 @@ interface ApiResponse {
   gameState: GameState;
 }
 
+type TurnStreamEvent =
+  | { type: 'partial'; reaction: string; worldResponse: string }
+  | { type: 'tool'; status: 'call' | 'result'; toolName: string; input?: any };
+
+interface StreamingTurn {
+  reaction: string;
+  worldResponse: string;
+  activeTool: { toolName: string; input?: any } | null;
+}
+
+interface SavePreview {
+  id: string;
+  name: string;
+  kind: 'manual' | 'autosave';
+  savedAt: number;
+  location: Location;
+  time: Time;
+  turnCount: number;
+  memoryCount: number;
+}
+
+// A playthrough in the branch tree; `fork` says where it split off its parent
+interface TimelineNode {
+  id: string;
+  name: string;
+  createdAt: number;
+  memoryCount: number;
+  parentId?: string;
+  fork?: {
+    entryIndex: number;
+    location: Location;
+    time: Time;
+    parentIntention: string | null;
+  };
+  branchIntention: string | null;
+}
+
+// Bilbo's route: the map with its roads, and the stretches of history spent in each settlement
+interface JourneyStop {
+  settlement: string | null;
+  name: string;
+  places: string[];
+  firstEntry: number;
+  lastEntry: number;
+  arrived: Time;
+  days: number | null;
+}
+
+interface Journey {
+  map: {
+    settlements: Array<{ id: string; name: string; region: string; x: number; y: number }>;
+    routes: Array<{ from: string; to: string; hours: number }>;
+  };
+  stops: JourneyStop[];
+}
+
+// The beats of the book with this playthrough's progress; `divergence` runs from 0 (the book) to 1
+interface PlotView {
+  beats: Array<{ id: string; chapter: number; title: string; status: PlotProgress['status'] | 'ahead'; time: Time | null }>;
+  current: string | null;
+  divergence: number;
+}
+
+// What the server changed while upgrading an older save
+interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  fixed: string[];
+  dropped: string[];
+}
+
+// How the memory panel searches: by meaning, by exact words, or both
+const SEARCH_MODES = ['hybrid', 'vector', 'keyword'] as const;
+type SearchMode = typeof SEARCH_MODES[number];
+
+interface LoadedSave {
+  gameState: GameState;
+  report: MigrationReport;
+}
+
+// Error raised for a failed turn; code is set when the server reports a known failure
+class TurnError extends Error {
+  constructor(message: string, public code?: string) {
+    super(message);
+  }
+}
+
 // ========================
 // INITIAL STATE
 // ========================
@@ -79,75 +192,382 @@ const loadInitialState = async (language: string = 'ru'): Promise<GameState> =>
 // API CALLS
 // ========================
 
-async function processGameAction(gameState: GameState, action: string, language: string = 'ru'): Promise<ApiResponse> {
-  const response = await fetch('/api/process-game-action', {
+async function processGameActionStream(
+  sessionId: string,
+  gameState: GameState,
+  action: string,
+  language: string,
+  onEvent: (event: TurnStreamEvent) => void
+): Promise<ApiResponse> {
+  const response = await fetch('/api/process-game-action/stream', {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
     },
-    body: JSON.stringify({ gameState, action, language })
+    body: JSON.stringify({ sessionId, gameState, action, language })
   });
 
-  if (!response.ok) {
+  if (!response.ok || !response.body) {
     throw new Error(`API call failed: ${response.status}`);
   }
 
-  const data = await response.json();
-  
-  if (data.error) {
-    throw new Error(data.message || 'API returned error');
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // SSE frames are separated by a blank line
+    let frameEnd = buffer.indexOf('\n\n');
+    while (frameEnd !== -1) {
+      const frame = buffer.slice(0, frameEnd);
+      buffer = buffer.slice(frameEnd + 2);
+      frameEnd = buffer.indexOf('\n\n');
+
+      if (!frame.startsWith('data: ')) continue;
+      const data = JSON.parse(frame.slice(6));
+
+      if (data.type === 'done') {
+        return data;
+      }
+      if (data.type === 'error') {
+        throw new TurnError(data.message || 'API returned error', data.code);
+      }
+      onEvent(data);
+    }
   }
 
-  return data;
+  throw new Error('Stream ended before the turn was complete');
 }
 
-async function fetchMemories(): Promise<any[]> {
-  const response = await fetch('/api/memories');
+async function fetchMemories(sessionId: string): Promise<any[]> {
+  const response = await fetch(`/api/memories?sessionId=${encodeURIComponent(sessionId)}`);
   if (!response.ok) {
     throw new Error(`Failed to fetch memories: ${response.status}`);
   }
   return await response.json();
 }
 
-async function clearMemories(): Promise<void> {
+// The memories an episode was merged from
+async function fetchEpisodeSources(sessionId: string, episodeId: string): Promise<any[]> {
+  const response = await fetch(`/api/memories/${encodeURIComponent(episodeId)}/sources?sessionId=${encodeURIComponent(sessionId)}`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch episode sources: ${response.status}`);
+  }
+  return await response.json();
+}
+
+// What the player can correct in a memory
+interface MemoryChanges {
+  content?: string;
+  importance?: number;
+  emotions?: string;
+  pinned?: boolean;
+}
+
+async function updateMemory(sessionId: string, memoryId: string, changes: MemoryChanges): Promise<any> {
+  const response = await fetch(`/api/memories/${encodeURIComponent(memoryId)}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ sessionId, ...changes })
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to update memory: ${response.status}`);
+  }
+  return await response.json();
+}
+
+async function deleteMemory(sessionId: string, memoryId: string): Promise<void> {
+  const response = await fetch(`/api/memories/${encodeURIComponent(memoryId)}?sessionId=${encodeURIComponent(sessionId)}`, { method: 'DELETE' });
+  if (!response.ok) {
+    throw new Error(`Failed to delete memory: ${response.status}`);
+  }
+}
+
+async function clearMemories(sessionId: string): Promise<void> {
   const response = await fetch('/api/clear-memories', {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
     },
+    body: JSON.stringify({ sessionId })
   });
   if (!response.ok) {
     throw new Error(`Failed to clear memories: ${response.status}`);
   }
 }
 
-async function searchMemories(query: string, threshold: number): Promise<any[]> {
+// Results are ranked against what Bilbo feels now
+async function searchMemories(sessionId: string, query: string, threshold: number, emotions: string[], mode: SearchMode): Promise<any[]> {
   if (!query.trim()) {
-    return fetchMemories(); // Return all memories if no search query
+    return fetchMemories(sessionId); // Return all memories if no search query
   }
   
-  const response = await fetch(`/api/memories?query=${encodeURIComponent(query)}&threshold=${threshold}`);
+  const params = new URLSearchParams({ sessionId, query, threshold: String(threshold), mode });
+  emotions.forEach(emotion => params.append('emotions', emotion));
+  const response = await fetch(`/api/memories?${params}`);
   if (!response.ok) {
     throw new Error(`Failed to search memories: ${response.status}`);
   }
   return await response.json();
 }
 
+async function fetchSessions(): Promise<{ id: string; name: string }[]> {
+  const response = await fetch('/api/sessions');
+  if (!response.ok) {
+    throw new Error(`Failed to fetch sessions: ${response.status}`);
+  }
+  return await response.json();
+}
+
+async function createSession(): Promise<string> {
+  const response = await fetch('/api/sessions', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({})
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to create session: ${response.status}`);
+  }
+  const session = await response.json();
+  return session.id;
+}
+
+// Continue this tab's session, or else the one this browser played last, as long as the server
+// still knows it and no other tab is playing it; only then start a new one
+async function resolveSession(savedSessionId: string | null): Promise<string> {
+  const sessions = await fetchSessions();
+  for (const candidate of [savedSessionId, localStorage.getItem(LAST_SESSION_KEY)]) {
+    if (candidate && sessions.some(session => session.id === candidate) && !(await isPlayedElsewhere(candidate))) {
+      return candidate;
+    }
+  }
+  return createSession();
+}
+
+// Undo the last turn, or go back to the point where history entry `entryIndex` was the latest
+async function rewindTurns(sessionId: string, entryIndex?: number): Promise<GameState> {
+  const response = await fetch('/api/rewind', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ sessionId, entryIndex })
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `Failed to rewind: ${response.status}`);
+  }
+  return data.gameState;
+}
+
+async function fetchTimelines(): Promise<TimelineNode[]> {
+  const response = await fetch('/api/timelines');
+  if (!response.ok) {
+    throw new Error(`Failed to fetch timelines: ${response.status}`);
+  }
+  return await response.json();
+}
+
+// Fork at history entry `entryIndex`, or at `gameState` when no entry is given
+async function forkSession(sessionId: string, gameState: GameState, name: string, entryIndex?: number): Promise<{ session: TimelineNode; gameState: GameState }> {
+  const response = await fetch(`/api/sessions/${sessionId}/fork`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ gameState, name, entryIndex })
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to fork: ${response.status}`);
+  }
+  return await response.json();
+}
+
+async function fetchSessionState(sessionId: string): Promise<GameState> {
+  const response = await fetch(`/api/sessions/${sessionId}/state`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch session state: ${response.status}`);
+  }
+  const data = await response.json();
+  return data.gameState;
+}
+
+async function storeSessionState(sessionId: string, gameState: GameState): Promise<void> {
+  const response = await fetch(`/api/sessions/${sessionId}/state`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ gameState })
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to store session state: ${response.status}`);
+  }
+}
+
+async function deleteSession(sessionId: string): Promise<void> {
+  const response = await fetch(`/api/sessions/${sessionId}`, { method: 'DELETE' });
+  if (!response.ok) {
+    throw new Error(`Failed to delete session: ${response.status}`);
+  }
+}
+
+async function fetchJourney(history: HistoryEntry[], language: string): Promise<Journey> {
+  const response = await fetch('/api/journey', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ history, language })
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch journey: ${response.status}`);
+  }
+  return await response.json();
+}
+
+async function fetchPlot(plot: PlotProgress[], language: string): Promise<PlotView> {
+  const response = await fetch('/api/plot', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ plot, language })
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch plot: ${response.status}`);
+  }
+  return await response.json();
+}
+
+// Depth-first order with each node's depth; branches whose parent is gone become roots
+function flattenTimelines(nodes: TimelineNode[]): Array<{ node: TimelineNode; depth: number }> {
+  const ids = new Set(nodes.map(node => node.id));
+  const result: Array<{ node: TimelineNode; depth: number }> = [];
+  const visit = (parentId: string | undefined, depth: number) => {
+    nodes
+      .filter(node => (parentId === undefined ? !node.parentId || !ids.has(node.parentId) : node.parentId === parentId))
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .forEach(node => {
+        result.push({ node, depth });
+        visit(node.id, depth + 1);
+      });
+  };
+  visit(undefined, 0);
+  return result;
+}
+
+async function fetchSaves(): Promise<SavePreview[]> {
+  const response = await fetch('/api/saves');
+  if (!response.ok) {
+    throw new Error(`Failed to fetch saves: ${response.status}`);
+  }
+  return await response.json();
+}
+
+// Creates a new slot, or overwrites `saveId` when given
+async function writeSave(sessionId: string, gameState: GameState, name: string, saveId?: string): Promise<SavePreview> {
+  const response = await fetch(saveId ? `/api/saves/${saveId}` : '/api/saves', {
+    method: saveId ? 'PUT' : 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ sessionId, gameState, name })
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to save game: ${response.status}`);
+  }
+  return await response.json();
+}
+
+// Restores the save's memories into the session and returns its game state.
+// Pass `saveId` for a server slot, or the parsed contents of a save file to import.
+async function loadSave(sessionId: string, source: { saveId: string } | { save: unknown }): Promise<LoadedSave> {
+  const response = await fetch('saveId' in source ? `/api/saves/${source.saveId}/load` : '/api/saves/import', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ sessionId, ...source })
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    // Unreadable or too new saves come with a message meant for the player
+    throw new Error(data.message || `Failed to load game: ${response.status}`);
+  }
+  return data;
+}
+
+async function deleteSave(saveId: string): Promise<void> {
+  const response = await fetch(`/api/saves/${saveId}`, { method: 'DELETE' });
+  if (!response.ok) {
+    throw new Error(`Failed to delete save: ${response.status}`);
+  }
+}
+
 // ========================
 // STORAGE
 // ========================
 
-const saveGameState = (gameState: GameState) => {
+// Each tab plays its own session: the id is kept in the tab's sessionStorage and in the URL,
+// so a reload or a restored tab continues the same game. A new visit continues the session
+// played last, unless another tab has it open.
+const SESSION_PARAM = 'session';
+const LAST_SESSION_KEY = 'hobbit_last_session';
+
+// Open tabs answer on this channel for the session they play
+const TABS_CHANNEL = 'hobbit_sessions';
+const TAB_REPLY_TIMEOUT = 300;
+
+const isPlayedElsewhere = (sessionId: string): Promise<boolean> => new Promise(resolve => {
+  if (typeof BroadcastChannel === 'undefined') return resolve(false);
+  const channel = new BroadcastChannel(TABS_CHANNEL);
+  const finish = (playing: boolean) => {
+    clearTimeout(timer);
+    channel.close();
+    resolve(playing);
+  };
+  const timer = setTimeout(() => finish(false), TAB_REPLY_TIMEOUT);
+  channel.onmessage = (event) => {
+    if (event.data?.type === 'playing' && event.data.sessionId === sessionId) finish(true);
+  };
+  channel.postMessage({ type: 'who-plays', sessionId });
+});
+
+// The game state of every session this browser played, by session id
+const gameStateKey = (sessionId: string) => `hobbit_game_state:${sessionId}`;
+
+const saveGameState = (sessionId: string, gameState: GameState) => {
   try {
-    localStorage.setItem('hobbit_game_state', JSON.stringify(gameState));
+    localStorage.setItem(gameStateKey(sessionId), JSON.stringify(gameState));
+    localStorage.setItem(LAST_SESSION_KEY, sessionId);
   } catch (error) {
     console.error('Failed to save game state:', error);
   }
 };
 
-const loadGameState = (): GameState | null => {
+const saveSessionId = (sessionId: string) => {
+  sessionStorage.setItem('hobbit_session_id', sessionId);
+  localStorage.setItem(LAST_SESSION_KEY, sessionId);
+  const url = new URL(window.location.href);
+  url.searchParams.set(SESSION_PARAM, sessionId);
+  window.history.replaceState(null, '', url);
+};
+
+const loadSessionId = (): string | null => {
+  return new URLSearchParams(window.location.search).get(SESSION_PARAM) || sessionStorage.getItem('hobbit_session_id');
+};
+
+const loadGameState = (sessionId: string): GameState | null => {
   try {
-    const saved = localStorage.getItem('hobbit_game_state');
+    const saved = localStorage.getItem(gameStateKey(sessionId));
     return saved ? JSON.parse(saved) : null;
   } catch (error) {
     console.error('Failed to load game state:', error);
@@ -155,6 +575,23 @@ const loadGameState = (): GameState | null => {
   }
 };
 
+// Older versions kept one game state and one session id for the whole browser;
+// the state goes to that session ("default" before sessions existed), which is then continued
+const migrateBrowserStorage = () => {
+  const legacyState = localStorage.getItem('hobbit_game_state');
+  if (legacyState !== null) {
+    const owner = localStorage.getItem('hobbit_session_id') || 'default';
+    if (localStorage.getItem(gameStateKey(owner)) === null) {
+      localStorage.setItem(gameStateKey(owner), legacyState);
+    }
+    if (localStorage.getItem(LAST_SESSION_KEY) === null) {
+      localStorage.setItem(LAST_SESSION_KEY, owner);
+    }
+  }
+  localStorage.removeItem('hobbit_game_state');
+  localStorage.removeItem('hobbit_session_id');
+};
+
 // ========================
 // MAIN COMPONENT
 // ========================
@@ -167,6 +604,8 @@ const HobbitGame = () => {
     time: {} as Time,
     environment: [],
     event: '',
+    characters: [],
+    plot: [],
     history: []
   });
   const [playerAction, setPlayerAction] = useState('');
@@ -178,8 +617,23 @@ const HobbitGame = () => {
   const [showMemories, setShowMemories] = useState(false);
   const [memorySearch, setMemorySearch] = useState('');
   const [memoryThreshold, setMemoryThreshold] = useState(0.3);
+  const [memorySearchMode, setMemorySearchMode] = useState<SearchMode>('hybrid');
   const [logs, setLogs] = useState<string[]>([]);
   const [showLogs, setShowLogs] = useState(false);
+  const [streamingTurn, setStreamingTurn] = useState<StreamingTurn | null>(null);
+  const [turnError, setTurnError] = useState<string | null>(null);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [showSaveDialog, setShowSaveDialog] = useState(false);
+  const [saves, setSaves] = useState<SavePreview[]>([]);
+  const [saveName, setSaveName] = useState('');
+  const [showTimelines, setShowTimelines] = useState(false);
+  const [timelines, setTimelines] = useState<TimelineNode[]>([]);
+  const [branchName, setBranchName] = useState('');
+  const [journey, setJourney] = useState<Journey | null>(null);
+  const [highlightedStop, setHighlightedStop] = useState<JourneyStop | null>(null);
+  const [plotView, setPlotView] = useState<PlotView | null>(null);
+  const [episodeSources, setEpisodeSources] = useState<Record<string, any[]>>({});
+  const [editingMemory, setEditingMemory] = useState<{ id: string; content: string; importance: number; emotions: string } | null>(null);
   
   const historyRef = useRef<HTMLDivElement>(null);
   const eventSourceRef = useRef<EventSource | null>(null);
@@ -189,7 +643,12 @@ const HobbitGame = () => {
   // Load saved game or initial state on start
   useEffect(() => {
     const initGame = async () => {
-      const savedState = loadGameState();
+      migrateBrowserStorage();
+      const activeSessionId = await resolveSession(loadSessionId());
+      saveSessionId(activeSessionId);
+      setSessionId(activeSessionId);
+
+      const savedState = loadGameState(activeSessionId);
       if (savedState) {
         setGameState(savedState);
         setShowRules(false);
@@ -198,7 +657,7 @@ const HobbitGame = () => {
         setGameState(initialState);
       }
       // Load memories on game start
-      await loadMemories();
+      await loadMemories(activeSessionId);
     };
     initGame();
   }, []);
@@ -212,7 +671,7 @@ const HobbitGame = () => {
         }
       }, 100);
     }
-  }, [gameState.history]);
+  }, [gameState.history, streamingTurn]);
 
   // Auto-scroll logs
   useEffect(() => {
@@ -261,26 +720,56 @@ const HobbitGame = () => {
     };
   }, []);
 
+  // Follow the story through the book whenever a turn moves it
+  useEffect(() => {
+    fetchPlot(gameState.plot || [], language)
+      .then(setPlotView)
+      .catch(error => console.error('Failed to load plot:', error));
+  }, [gameState.plot, language]);
+
+  // Tell tabs looking for a session to continue that this one is taken
+  useEffect(() => {
+    if (!sessionId || typeof BroadcastChannel === 'undefined') return;
+    const channel = new BroadcastChannel(TABS_CHANNEL);
+    channel.onmessage = (event) => {
+      if (event.data?.type === 'who-plays' && event.data.sessionId === sessionId) {
+        channel.postMessage({ type: 'playing', sessionId });
+      }
+    };
+    return () => channel.close();
+  }, [sessionId]);
+
   // Save game state when it changes
   useEffect(() => {
-    if (gameState.history.length > 0) {
-      saveGameState(gameState);
+    if (sessionId && gameState.history.length > 0) {
+      saveGameState(sessionId, gameState);
     }
-  }, [gameState]);
+  }, [gameState, sessionId]);
 
   const handleTaskClick = (task: string) => {
     setPlayerAction(task);
   };
 
   const handleSubmitAction = async () => {
-    if (!playerAction.trim() || isProcessing) return;
+    if (!playerAction.trim() || isProcessing || !sessionId) return;
 
     const action = playerAction.trim();
     setIsProcessing(true);
+    setTurnError(null);
+    setStreamingTurn({ reaction: '', worldResponse: '', activeTool: null });
 
     try {
-      // Call API (server handles history updates now)
-      const response = await processGameAction(gameState, action, language);
+      // Call API (server handles history updates now), rendering text as it arrives
+      const response = await processGameActionStream(sessionId, gameState, action, language, (event) => {
+        if (event.type === 'partial') {
+          setStreamingTurn(prev => prev && { ...prev, reaction: event.reaction, worldResponse: event.worldResponse });
+        } else if (event.type === 'tool') {
+          setStreamingTurn(prev => prev && {
+            ...prev,
+            activeTool: event.status === 'call' ? { toolName: event.toolName, input: event.input } : null
+          });
+        }
+      });
 
       // Only clear input if successful
       setPlayerAction('');
@@ -298,7 +787,12 @@ const HobbitGame = () => {
       console.error('Error processing action:', error);
       // Don't add API errors to game history - they break immersion
       // Don't clear input on error so user can retry
+      setTurnError(error instanceof TurnError && error.code === 'INVALID_RESPONSE'
+        ? t('messages.invalidResponse')
+        : t('messages.turnError'));
     } finally {
+      // Partial text is discarded either way: the final game state is the source of truth
+      setStreamingTurn(null);
       setIsProcessing(false);
       
       // Focus input
@@ -308,6 +802,144 @@ const HobbitGame = () => {
     }
   };
 
+  const handleRewind = async (entryIndex?: number) => {
+    if (!sessionId || isProcessing) return;
+    if (!confirm(entryIndex === undefined ? t('messages.confirmUndo') : t('messages.confirmRewind'))) return;
+
+    try {
+      const rewoundState = await rewindTurns(sessionId, entryIndex);
+      setGameState(rewoundState);
+      setTurnError(null);
+      await loadMemories();
+    } catch (error) {
+      console.error('Failed to rewind:', error);
+      alert(t('messages.rewindError'));
+    }
+  };
+
+  // Show or hide the memories behind an episode
+  const toggleEpisodeSources = async (episodeId: string) => {
+    if (episodeSources[episodeId]) {
+      const { [episodeId]: _, ...rest } = episodeSources;
+      setEpisodeSources(rest);
+      return;
+    }
+    if (!sessionId) return;
+    try {
+      const sources = await fetchEpisodeSources(sessionId, episodeId);
+      setEpisodeSources(prev => ({ ...prev, [episodeId]: sources }));
+    } catch (error) {
+      console.error('Failed to load episode sources:', error);
+    }
+  };
+
+  // Edits keep the memory where it is in the list, search score included
+  const applyMemoryChanges = async (memoryId: string, changes: MemoryChanges) => {
+    if (!sessionId) return;
+    try {
+      const { embeddings, ...updated } = await updateMemory(sessionId, memoryId, changes);
+      setMemories(prev => prev.map(memory => memory.id === memoryId ? { ...memory, ...updated } : memory));
+      setEditingMemory(null);
+    } catch (error) {
+      console.error('Failed to update memory:', error);
+      alert(t('memory.editError'));
+    }
+  };
+
+  const saveMemoryEdit = async () => {
+    if (!editingMemory) return;
+    const { id, ...changes } = editingMemory;
+    await applyMemoryChanges(id, changes);
+  };
+
+  const handleDeleteMemory = async (memoryId: string) => {
+    if (!sessionId || !confirm(t('memory.confirmDelete'))) return;
+    try {
+      await deleteMemory(sessionId, memoryId);
+      setMemories(prev => prev.filter(memory => memory.id !== memoryId));
+    } catch (error) {
+      console.error('Failed to delete memory:', error);
+      alert(t('memory.editError'));
+    }
+  };
+
+  const openJourney = async () => {
+    try {
+      setJourney(await fetchJourney(gameState.history, language));
+    } catch (error) {
+      console.error('Failed to load journey:', error);
+    }
+  };
+
+  // Close the map and bring the entries of that stop into view
+  const jumpToStop = (stop: JourneyStop) => {
+    setJourney(null);
+    setHighlightedStop(stop);
+    document.getElementById(`history-entry-${stop.firstEntry}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  const openTimelines = async () => {
+    setShowTimelines(true);
+    try {
+      setTimelines(await fetchTimelines());
+    } catch (error) {
+      console.error('Failed to load timelines:', error);
+    }
+  };
+
+  // Make `targetId` the active playthrough, with its own state and memories
+  const activateSession = async (targetId: string, targetState: GameState) => {
+    setSessionId(targetId);
+    saveSessionId(targetId);
+    setGameState(targetState);
+    setTurnError(null);
+    setShowTimelines(false);
+    await loadMemories(targetId);
+  };
+
+  const handleFork = async (entryIndex?: number) => {
+    if (!sessionId || isProcessing) return;
+    const name = entryIndex === undefined ? branchName.trim() : prompt(t('timelines.namePrompt')) ?? null;
+    if (name === null) return;
+
+    try {
+      const fork = await forkSession(sessionId, gameState, name, entryIndex);
+      setBranchName('');
+      await activateSession(fork.session.id, fork.gameState);
+    } catch (error) {
+      console.error('Failed to fork:', error);
+      alert(t('timelines.forkError'));
+    }
+  };
+
+  const handleSwitchBranch = async (targetId: string) => {
+    if (!sessionId || isProcessing) return;
+    try {
+      // The server only learns the state after each turn; keep it in sync before leaving
+      await storeSessionState(sessionId, gameState);
+      // Sessions played before the server kept their state, like "default", continue from this browser's copy
+      const targetState = await fetchSessionState(targetId).catch(error => {
+        const stored = loadGameState(targetId);
+        if (!stored) throw error;
+        return stored;
+      });
+      await activateSession(targetId, targetState);
+    } catch (error) {
+      console.error('Failed to switch branch:', error);
+      alert(t('timelines.switchError'));
+    }
+  };
+
+  const handleDeleteBranch = async (targetId: string) => {
+    if (!confirm(t('timelines.confirmDelete'))) return;
+    try {
+      await deleteSession(targetId);
+      setTimelines(await fetchTimelines());
+    } catch (error) {
+      console.error('Failed to delete branch:', error);
+    }
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -319,11 +951,11 @@ const HobbitGame = () => {
     const initialState = await loadInitialState(language);
     setGameState(initialState);
     setTokenUsage({ total: 0 });
-    localStorage.removeItem('hobbit_game_state');
+    if (sessionId) localStorage.removeItem(gameStateKey(sessionId));
     
     // Clear memories for new game
     try {
-      await clearMemories();
+      if (sessionId) await clearMemories(sessionId);
       setMemories([]);
     } catch (error) {
       console.error('Failed to clear memories:', error);
@@ -332,9 +964,10 @@ const HobbitGame = () => {
     setShowRules(false);
   };
 
-  const loadMemories = async () => {
+  const loadMemories = async (activeSessionId: string | null = sessionId) => {
+    if (!activeSessionId) return;
     try {
-      const fetchedMemories = await fetchMemories();
+      const fetchedMemories = await fetchMemories(activeSessionId);
       setMemories(fetchedMemories);
     } catch (error) {
       console.error('Failed to load memories:', error);
@@ -342,99 +975,90 @@ const HobbitGame = () => {
   };
 
   const handleMemorySearch = async () => {
+    if (!sessionId) return;
     try {
-      const searchResults = await searchMemories(memorySearch, memoryThreshold);
+      const searchResults = await searchMemories(sessionId, memorySearch, memoryThreshold, gameState.bilboState.emotions || [], memorySearchMode);
       setMemories(searchResults);
     } catch (error) {
       console.error('Failed to search memories:', error);
     }
   };
 
-  const handleSaveState = async () => {
+  const openSaveDialog = async () => {
+    setShowSaveDialog(true);
     try {
-      // Get memories from API
-      const memories = await fetch('/api/memories').then(res => res.json());
-      
-      // Remove embeddings from memories for human readability
-      const memoriesForSave = memories.map((memory: any) => {
-        const { embeddings, ...memoryWithoutEmbeddings } = memory;
-        return memoryWithoutEmbeddings;
-      });
-      
-      // Prepare save data
-      const saveData = {
-        gameState,
-        memories: memoriesForSave,
-        timestamp: new Date().toISOString(),
-        version: '1.0'
-      };
+      setSaves(await fetchSaves());
+    } catch (error) {
+      console.error('Failed to load saves:', error);
+    }
+  };
 
-      // Create downloadable file
-      const blob = new Blob([JSON.stringify(saveData, null, 2)], {
-        type: 'application/json'
-      });
-      
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `hobbit_save_${Date.now()}.json`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-
-      alert(t('messages.saveSuccess') || 'Game saved to file successfully!');
+  const handleSaveState = async (saveId?: string) => {
+    if (!sessionId) return;
+    if (saveId && !confirm(t('saves.confirmOverwrite'))) return;
+    try {
+      await writeSave(sessionId, gameState, saveName.trim(), saveId);
+      setSaveName('');
+      setSaves(await fetchSaves());
     } catch (error) {
       console.error('Failed to save state:', error);
-      alert(t('messages.saveError') || 'Failed to save game');
+      alert(t('messages.saveError'));
     }
   };
 
-  const handleLoadState = async () => {
-    try {
-      // Create file input
-      const input = document.createElement('input');
-      input.type = 'file';
-      input.accept = '.json';
-      
-      input.onchange = async (e) => {
-        const file = (e.target as HTMLInputElement).files?.[0];
-        if (!file) return;
+  const applyLoadedSave = async ({ gameState: savedState, report }: LoadedSave) => {
+    setGameState(savedState);
+    await loadMemories(); // Refresh memories display
+    setShowSaveDialog(false);
+
+    if (report.fromVersion !== report.toVersion || report.fixed.length > 0 || report.dropped.length > 0) {
+      alert([
+        t('saves.upgraded', { from: report.fromVersion, to: report.toVersion }),
+        ...report.fixed.map(fix => `✔ ${fix}`),
+        ...report.dropped.map(drop => `✖ ${drop}`)
+      ].join('\n'));
+    }
+  };
 
-        try {
-          const text = await file.text();
-          const saveData = JSON.parse(text);
-          
-          // Clear existing memories
-          await fetch('/api/clear-memories', { method: 'POST' });
-          
-          // Load memories if they exist
-          if (saveData.memories && saveData.memories.length > 0) {
-            // Recreate memories through API
-            for (const memory of saveData.memories) {
-              await fetch('/api/save-memory', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify(memory)
-              });
-            }
-          }
-          
-          // Set game state
-          setGameState(saveData.gameState);
-          await loadMemories(); // Refresh memories display
-          
-          alert(t('messages.loadSuccess') || `Loaded game from ${file.name}`);
-        } catch (error) {
-          console.error('Failed to parse save file:', error);
-          alert(t('messages.loadError') || 'Invalid save file format');
-        }
-      };
-      
-      input.click();
+  const handleLoadState = async (saveId: string) => {
+    if (!sessionId) return;
+    try {
+      await applyLoadedSave(await loadSave(sessionId, { saveId }));
     } catch (error) {
       console.error('Failed to load state:', error);
-      alert(t('messages.loadError') || 'Failed to load game');
+      alert(`${t('messages.loadError')}: ${(error as Error).message}`);
+    }
+  };
+
+  const handleImportSave = () => {
+    if (!sessionId) return;
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.json';
+
+    input.onchange = async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (!file) return;
+
+      try {
+        const save = JSON.parse(await file.text());
+        await applyLoadedSave(await loadSave(sessionId, { save }));
+      } catch (error) {
+        console.error('Failed to import save:', error);
+        alert(`${t('messages.loadError')}: ${(error as Error).message}`);
+      }
+    };
+
+    input.click();
+  };
+
+  const handleDeleteSave = async (saveId: string) => {
+    if (!confirm(t('saves.confirmDelete'))) return;
+    try {
+      await deleteSave(saveId);
+      setSaves(await fetchSaves());
+    } catch (error) {
+      console.error('Failed to delete save:', error);
     }
   };
 
@@ -569,16 +1193,22 @@ const HobbitGame = () => {
                   ✨ {t('buttons.newGame')}
                 </button>
                 <button
-                  onClick={handleSaveState}
-                  className="bg-purple-600/80 hover:bg-purple-500/90 backdrop-blur-sm border border-purple-400/30 px-2 py-1 rounded-lg text-xs font-medium shadow-lg transition-all duration-300 hover:shadow-purple-500/25"
+                  onClick={openJourney}
+                  className="bg-sky-600/80 hover:bg-sky-500/90 backdrop-blur-sm border border-sky-400/30 px-2 py-1 rounded-lg text-xs font-medium shadow-lg transition-all duration-300 hover:shadow-sky-500/25"
                 >
-                  💾 {t('buttons.save')}
+                  🗺️ {t('buttons.journey')}
                 </button>
                 <button
-                  onClick={handleLoadState}
-                  className="bg-indigo-600/80 hover:bg-indigo-500/90 backdrop-blur-sm border border-indigo-400/30 px-2 py-1 rounded-lg text-xs font-medium shadow-lg transition-all duration-300 hover:shadow-indigo-500/25"
+                  onClick={openTimelines}
+                  className="bg-teal-600/80 hover:bg-teal-500/90 backdrop-blur-sm border border-teal-400/30 px-2 py-1 rounded-lg text-xs font-medium shadow-lg transition-all duration-300 hover:shadow-teal-500/25"
                 >
-                  📂 {t('buttons.load')}
+                  🌳 {t('buttons.timelines')}
+                </button>
+                <button
+                  onClick={openSaveDialog}
+                  className="bg-purple-600/80 hover:bg-purple-500/90 backdrop-blur-sm border border-purple-400/30 px-2 py-1 rounded-lg text-xs font-medium shadow-lg transition-all duration-300 hover:shadow-purple-500/25"
+                >
+                  💾 {t('buttons.saves')}
                 </button>
               </div>
             </div>
@@ -605,10 +1235,11 @@ const HobbitGame = () => {
                   {gameState.history.map((entry, index) => (
                     <div 
                       key={index} 
-                      className={`p-4 rounded-xl shadow-sm border ${
+                      id={`history-entry-${index}`}
+                      className={`relative group p-4 rounded-xl shadow-sm border ${
                         entry.type === 'bilbo' ? 'bg-gradient-to-r from-orange-100/80 to-amber-100/80 border-l-4 border-orange-400' :
                         'bg-gradient-to-r from-green-100/60 to-yellow-100/80 border-l-4 border-green-500'
-                      }`}
+                      } ${highlightedStop && index >= highlightedStop.firstEntry && index <= highlightedStop.lastEntry ? 'ring-2 ring-sky-400' : ''}`}
                     >
                       {entry.type === 'bilbo' && (
                         <div>
@@ -625,6 +1256,25 @@ const HobbitGame = () => {
                       
                       {entry.type === 'world' && (
                         <div>
+                          {/* Rewinding to the latest entry would change nothing */}
+                          {index < gameState.history.length - 1 && !isProcessing && (
+                            <button
+                              onClick={() => handleRewind(index)}
+                              className="absolute top-2 right-2 hidden group-hover:block text-xs text-green-700 bg-white/80 hover:bg-white px-2 py-0.5 rounded-lg border border-green-300 shadow-sm"
+                              title={t('tooltips.rewindHere')}
+                            >
+                              ⏪
+                            </button>
+                          )}
+                          {!isProcessing && (
+                            <button
+                              onClick={() => handleFork(index)}
+                              className={`absolute top-2 ${index < gameState.history.length - 1 ? 'right-12' : 'right-2'} hidden group-hover:block text-xs text-green-700 bg-white/80 hover:bg-white px-2 py-0.5 rounded-lg border border-green-300 shadow-sm`}
+                              title={t('tooltips.forkHere')}
+                            >
+                              🌿
+                            </button>
+                          )}
                           <div className="text-sm">
                             🌍 {entry.content}
                           </div>
@@ -637,6 +1287,24 @@ const HobbitGame = () => {
                       )}
                     </div>
                   ))}
+
+                  {/* Turn being generated */}
+                  {streamingTurn && streamingTurn.reaction && (
+                    <div className="p-4 rounded-xl shadow-sm border bg-gradient-to-r from-orange-100/80 to-amber-100/80 border-l-4 border-orange-400 opacity-80">
+                      <div className="text-sm">
+                        🧑 {streamingTurn.reaction}
+                        {!streamingTurn.worldResponse && <span className="animate-pulse">▍</span>}
+                      </div>
+                    </div>
+                  )}
+                  {streamingTurn && streamingTurn.worldResponse && (
+                    <div className="p-4 rounded-xl shadow-sm border bg-gradient-to-r from-green-100/60 to-yellow-100/80 border-l-4 border-green-500 opacity-80">
+                      <div className="text-sm">
+                        🌍 {streamingTurn.worldResponse}
+                        <span className="animate-pulse">▍</span>
+                      </div>
+                    </div>
+                  )}
                 </div>
               )}
             </div>
@@ -670,11 +1338,22 @@ const HobbitGame = () => {
               {isProcessing && (
                 <div className="mb-3 text-center">
                   <div className="text-green-700 font-medium flex items-center justify-center gap-2">
-                    <span>{t('processing.text')}</span>
+                    <span>
+                      {streamingTurn?.activeTool
+                        ? streamingTurn.activeTool.toolName === 'search_memory'
+                          ? t('processing.searchingMemory', { query: streamingTurn.activeTool.input?.query || '' })
+                          : t('processing.usingTool', { tool: streamingTurn.activeTool.toolName })
+                        : t('processing.text')}
+                    </span>
                     <div className="animate-spin w-4 h-4 border-2 border-green-600 border-t-transparent rounded-full"></div>
                   </div>
                 </div>
               )}
+              {turnError && !isProcessing && (
+                <div className="mb-3 text-center text-sm text-red-700">
+                  {turnError}
+                </div>
+              )}
               
               <div className="flex gap-2">
                 <input
@@ -694,6 +1373,14 @@ const HobbitGame = () => {
                 >
                   {isProcessing ? t('processing.action') : t('buttons.send')}
                 </button>
+                <button
+                  onClick={() => handleRewind()}
+                  disabled={isProcessing || !gameState.history.some(entry => entry.type === 'bilbo')}
+                  className="bg-white/90 hover:bg-green-50 disabled:opacity-50 border border-green-300 text-green-800 px-3 py-3 rounded-xl shadow-sm transition-all duration-200"
+                  title={t('buttons.undo')}
+                >
+                  ↩️
+                </button>
               </div>
             </div>
           </div>
@@ -768,6 +1455,99 @@ const HobbitGame = () => {
                 </div>
               </div>
 
+              <div className="bg-white/90 backdrop-blur-sm p-4 rounded-xl shadow-md border border-amber-200">
+                <h4 className="font-semibold text-amber-700 mb-2">🎒 {t('sections.inventory')}</h4>
+                <p className="text-xs text-amber-600 mb-2 font-medium">{t('descriptions.inventoryCarried')}</p>
+                <div className="text-sm text-amber-800/80">
+                  {(gameState.bilboState.inventory || []).length === 0 ? (
+                    <p className="italic">{t('descriptions.inventoryEmpty')}</p>
+                  ) : (
+                    (gameState.bilboState.inventory || []).map((entry, index) => (
+                      <div
+                        key={index}
+                        className="mb-1 break-words"
+                        title={t('tooltips.acquired', { place: entry.acquired })}
+                      >
+                        <span className="text-amber-600">•</span> {entry.item}
+                        {entry.quantity > 1 && <span className="font-medium"> ×{entry.quantity}</span>}
+                        <span className="text-xs text-amber-600"> — {entry.condition}</span>
+                      </div>
+                    ))
+                  )}
+                </div>
+              </div>
+
+              <div className="bg-white/90 backdrop-blur-sm p-4 rounded-xl shadow-md border border-green-200">
+                <h4 className="font-semibold text-green-700 mb-2">🧙 {t('sections.companions')}</h4>
+                <p className="text-xs text-green-600 mb-2 font-medium">{t('descriptions.companionsMet')}</p>
+                <div className="text-sm text-green-800/80 space-y-2">
+                  {(gameState.characters || []).length === 0 ? (
+                    <p className="italic">{t('descriptions.companionsEmpty')}</p>
+                  ) : (
+                    [...(gameState.characters || [])]
+                      .sort((a, b) => Number(b.present) - Number(a.present))
+                      .map(character => (
+                        <div key={character.name} className={`break-words ${character.present ? '' : 'opacity-60'}`}>
+                          <div>
+                            <span className="font-medium">{character.name}</span>
+                            {character.race && <span className="text-xs text-green-600"> ({character.race})</span>}
+                            {character.present && <span className="text-xs text-amber-600"> • {t('descriptions.companionPresent')}</span>}
+                          </div>
+                          <div className="text-xs">{t('descriptions.companionDisposition', { disposition: character.disposition })}</div>
+                          {!character.present && (
+                            <div className="text-xs text-green-600">
+                              {t('descriptions.companionLastSeen', {
+                                place: character.lastSeen.location.place,
+                                time: `${character.lastSeen.time.day} ${character.lastSeen.time.month}, ${character.lastSeen.time.time}`
+                              })}
+                            </div>
+                          )}
+                          {character.facts.length > 0 && (
+                            <ul className="text-xs italic list-disc list-inside">
+                              {character.facts.map((fact, index) => <li key={index}>{fact}</li>)}
+                            </ul>
+                          )}
+                        </div>
+                      ))
+                  )}
+                </div>
+              </div>
+
+              {plotView && (
+                <div className="bg-white/90 backdrop-blur-sm p-4 rounded-xl shadow-md border border-amber-200">
+                  <h4 className="font-semibold text-amber-700 mb-2">📖 {t('sections.story')}</h4>
+                  <p className="text-xs text-amber-600 mb-2 font-medium">{t('descriptions.storyProgress')}</p>
+                  {(() => {
+                    const current = plotView.beats.find(beat => beat.id === plotView.current);
+                    return (
+                      <p className="text-sm font-medium text-amber-800 mb-2">
+                        {current ? t('plot.chapter', { chapter: current.chapter, title: current.title }) : t('plot.notStarted')}
+                      </p>
+                    );
+                  })()}
+                  <div className="mb-3">
+                    <div className="text-xs text-amber-700 mb-1">{t('plot.divergence', { percent: Math.round(plotView.divergence * 100) })}</div>
+                    <div className="h-2 bg-amber-100 rounded-full overflow-hidden">
+                      <div className="h-full bg-gradient-to-r from-green-500 to-orange-500" style={{ width: `${plotView.divergence * 100}%` }} />
+                    </div>
+                  </div>
+                  <ul className="text-sm text-amber-800/80 space-y-1">
+                    {plotView.beats.map(beat => (
+                      <li
+                        key={beat.id}
+                        className={`flex justify-between gap-2 ${beat.status === 'ahead' ? 'opacity-50' : ''} ${beat.id === plotView.current ? 'font-semibold' : ''}`}
+                        title={beat.time ? `${beat.time.day} ${beat.time.month} ${beat.time.year}, ${beat.time.time}` : undefined}
+                      >
+                        <span>
+                          {{ reached: '✅', altered: '🔀', skipped: '⏭️', ahead: '▫️' }[beat.status]} {beat.chapter}. {beat.title}
+                        </span>
+                        <span className="text-xs text-amber-600 whitespace-nowrap">{t(`plot.${beat.status}`)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               <div className="bg-white/90 backdrop-blur-sm p-4 rounded-xl shadow-md border border-green-200">
                 <div className="flex justify-between items-center mb-2">
                   <h4 className="font-semibold text-green-700">🧠 {t('sections.memory')}</h4>
@@ -795,8 +1575,18 @@ const HobbitGame = () => {
                           }}
                           className="flex-1 px-2 py-1 text-xs border border-green-300 rounded bg-white/80 focus:outline-none focus:ring-2 focus:ring-green-200"
                         />
+                        <select
+                          value={memorySearchMode}
+                          onChange={(e) => setMemorySearchMode(e.target.value as SearchMode)}
+                          className="px-1 py-1 text-xs border border-green-300 rounded bg-white/80 text-green-700"
+                          title={t('memory.modeHint')}
+                        >
+                          {SEARCH_MODES.map(mode => (
+                            <option key={mode} value={mode}>{t(`memory.modes.${mode}`)}</option>
+                          ))}
+                        </select>
                         <button
-                          onClick={loadMemories}
+                          onClick={() => loadMemories()}
                           className="px-2 py-1 text-xs bg-gray-500 text-white rounded hover:bg-gray-600 transition-colors"
                           title={t('buttons.resetMemories')}
                         >
@@ -830,9 +1620,109 @@ const HobbitGame = () => {
                               {memory.time && <span className="text-green-700">📅 {memory.time}</span>}
                               <span>⭐ {memory.importance}</span>
                             </div>
-                            {memory.similarity && <span className="text-blue-600">📊 {memory.similarity}</span>}
+                            {memory.score ? (
+                              <span
+                                className="text-blue-600"
+                                title={t('memory.scoreBreakdown', {
+                                  similarity: memory.score.similarity,
+                                  importance: memory.score.importance,
+                                  recency: memory.score.recency,
+                                  emotion: memory.score.emotion,
+                                  keyword: memory.score.keyword
+                                })}
+                              >
+                                📊 {memory.score.total}
+                              </span>
+                            ) : (
+                              memory.similarity && <span className="text-blue-600">📊 {memory.similarity}</span>
+                            )}
                           </div>
-                          <div className="text-green-800 break-words">{memory.content}</div>
+                          {editingMemory && editingMemory.id === memory.id ? (
+                            <div className="space-y-1">
+                              <textarea
+                                value={editingMemory.content}
+                                onChange={(e) => setEditingMemory({ ...editingMemory, content: e.target.value })}
+                                rows={3}
+                                className="w-full px-2 py-1 text-xs border border-green-300 rounded bg-white focus:outline-none focus:ring-2 focus:ring-green-200"
+                              />
+                              <div className="flex items-center gap-2">
+                                <label className="text-green-700">⭐</label>
+                                <input
+                                  type="number"
+                                  min="0"
+                                  max="1"
+                                  step="0.1"
+                                  value={editingMemory.importance}
+                                  onChange={(e) => setEditingMemory({ ...editingMemory, importance: parseFloat(e.target.value) })}
+                                  className="w-16 px-1 py-0.5 border border-green-300 rounded bg-white"
+                                />
+                                <input
+                                  type="text"
+                                  value={editingMemory.emotions}
+                                  placeholder={t('sections.emotions')}
+                                  onChange={(e) => setEditingMemory({ ...editingMemory, emotions: e.target.value })}
+                                  className="flex-1 px-1 py-0.5 border border-green-300 rounded bg-white"
+                                />
+                              </div>
+                              <div className="flex justify-end gap-2">
+                                <button
+                                  onClick={() => setEditingMemory(null)}
+                                  className="px-2 py-0.5 bg-gray-400 text-white rounded hover:bg-gray-500"
+                                >
+                                  {t('memory.cancel')}
+                                </button>
+                                <button
+                                  onClick={saveMemoryEdit}
+                                  disabled={!editingMemory.content.trim() || !(editingMemory.importance >= 0 && editingMemory.importance <= 1)}
+                                  className="px-2 py-0.5 bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50"
+                                >
+                                  {t('buttons.save')}
+                                </button>
+                              </div>
+                            </div>
+                          ) : (
+                            <div className="flex justify-between gap-2">
+                              <div className="text-green-800 break-words">{memory.content}</div>
+                              <div className="flex gap-1 shrink-0 self-start">
+                                <button
+                                  onClick={() => applyMemoryChanges(memory.id, { pinned: !memory.pinned })}
+                                  className={memory.pinned ? '' : 'opacity-30 hover:opacity-100'}
+                                  title={t(memory.pinned ? 'memory.unpin' : 'memory.pin')}
+                                >
+                                  📌
+                                </button>
+                                <button
+                                  onClick={() => setEditingMemory({ id: memory.id, content: memory.content, importance: memory.importance, emotions: memory.emotions })}
+                                  className="opacity-30 hover:opacity-100"
+                                  title={t('memory.edit')}
+                                >
+                                  ✏️
+                                </button>
+                                <button
+                                  onClick={() => handleDeleteMemory(memory.id)}
+                                  className="opacity-30 hover:opacity-100"
+                                  title={t('memory.delete')}
+                                >
+                                  🗑️
+                                </button>
+                              </div>
+                            </div>
+                          )}
+                          {memory.sources && (
+                            <button
+                              onClick={() => toggleEpisodeSources(memory.id)}
+                              className="mt-1 text-green-600 hover:text-green-800 underline"
+                            >
+                              🗜️ {t('memory.episode', { count: memory.sources.split(',').length })}
+                            </button>
+                          )}
+                          {episodeSources[memory.id] && (
+                            <ul className="mt-1 pl-3 border-l-2 border-green-200 space-y-1 text-green-700/80">
+                              {episodeSources[memory.id].map(source => (
+                                <li key={source.id} className="break-words">📅 {source.time}: {source.content}</li>
+                              ))}
+                            </ul>
+                          )}
                         </div>
                       ))
                     )}
@@ -854,6 +1744,254 @@ const HobbitGame = () => {
       </div>
     </div>
 
+    {/* Save/Load Dialog */}
+    {showSaveDialog && (
+      <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50 p-4" onClick={() => setShowSaveDialog(false)}>
+        <div className="bg-white/95 rounded-xl shadow-2xl border-2 border-green-200/80 w-full max-w-2xl max-h-[80vh] flex flex-col overflow-hidden" onClick={(e) => e.stopPropagation()}>
+          <div className="bg-gradient-to-r from-green-800 to-green-700 text-white p-4 flex items-center justify-between">
+            <h2 className="text-xl font-bold">💾 {t('saves.title')}</h2>
+            <button onClick={() => setShowSaveDialog(false)} className="text-green-100 hover:text-white text-lg">✕</button>
+          </div>
+
+          <div className="p-4 border-b border-green-200 flex gap-2">
+            <input
+              type="text"
+              placeholder={t('placeholders.saveName')}
+              value={saveName}
+              onChange={(e) => setSaveName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  handleSaveState();
+                }
+              }}
+              className="flex-1 px-3 py-2 text-sm border border-green-300 rounded-lg bg-white/80 focus:outline-none focus:ring-2 focus:ring-green-200"
+            />
+            <button
+              onClick={() => handleSaveState()}
+              className="bg-purple-600 hover:bg-purple-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+            >
+              {t('saves.newSlot')}
+            </button>
+            <button
+              onClick={handleImportSave}
+              className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+              title={t('saves.importHint')}
+            >
+              📥 {t('saves.import')}
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-4 space-y-2">
+            {saves.length === 0 ? (
+              <p className="text-sm text-green-600 italic">{t('saves.empty')}</p>
+            ) : (
+              saves.map(save => (
+                <div key={save.id} className="bg-green-50/50 p-3 rounded-lg border border-green-200/50 flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="font-semibold text-green-800 break-words">
+                      {save.kind === 'autosave' && <span className="text-xs bg-amber-100 text-amber-800 px-2 py-0.5 rounded-full mr-2">{t('saves.autosave')}</span>}
+                      {save.name}
+                    </div>
+                    <div className="text-xs text-green-600 mt-1 flex flex-wrap gap-x-3">
+                      <span className="text-purple-600">📍 {[save.location.region, save.location.settlement, save.location.place].filter(Boolean).join(', ')}</span>
+                      <span>📅 {save.time.day} {save.time.month} {save.time.year}, {save.time.time}</span>
+                      <span>{t('saves.turns', { count: save.turnCount })}</span>
+                      <span>🧠 {save.memoryCount}</span>
+                    </div>
+                    <div className="text-xs text-gray-500 mt-1">{new Date(save.savedAt).toLocaleString()}</div>
+                  </div>
+                  <div className="flex gap-1 flex-shrink-0">
+                    <button
+                      onClick={() => handleLoadState(save.id)}
+                      className="bg-indigo-600 hover:bg-indigo-700 text-white px-2 py-1 rounded text-xs transition-colors"
+                    >
+                      📂 {t('buttons.load')}
+                    </button>
+                    {save.kind === 'manual' && (
+                      <button
+                        onClick={() => handleSaveState(save.id)}
+                        className="bg-purple-600 hover:bg-purple-700 text-white px-2 py-1 rounded text-xs transition-colors"
+                      >
+                        💾 {t('saves.overwrite')}
+                      </button>
+                    )}
+                    <a
+                      href={`/api/saves/${save.id}/export`}
+                      className="bg-gray-500 hover:bg-gray-600 text-white px-2 py-1 rounded text-xs transition-colors"
+                      title={t('saves.export')}
+                    >
+                      📤
+                    </a>
+                    <button
+                      onClick={() => handleDeleteSave(save.id)}
+                      className="bg-red-500 hover:bg-red-600 text-white px-2 py-1 rounded text-xs transition-colors"
+                      title={t('saves.delete')}
+                    >
+                      🗑️
+                    </button>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      </div>
+    )}
+
+    {/* Journey Dialog */}
+    {journey && (
+      <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50 p-4" onClick={() => setJourney(null)}>
+        <div className="bg-white/95 rounded-xl shadow-2xl border-2 border-green-200/80 w-full max-w-4xl max-h-[85vh] flex flex-col overflow-hidden" onClick={(e) => e.stopPropagation()}>
+          <div className="bg-gradient-to-r from-green-800 to-green-700 text-white p-4 flex items-center justify-between">
+            <h2 className="text-xl font-bold">🗺️ {t('journey.title')}</h2>
+            <button onClick={() => setJourney(null)} className="text-green-100 hover:text-white text-lg">✕</button>
+          </div>
+
+          {/* Schematic map: every road, Bilbo's route drawn over it */}
+          <div className="p-4 border-b border-green-200 bg-amber-50/60">
+            <svg viewBox="0 110 940 170" className="w-full h-auto">
+              {journey.map.routes.map(route => {
+                const from = journey.map.settlements.find(settlement => settlement.id === route.from);
+                const to = journey.map.settlements.find(settlement => settlement.id === route.to);
+                return from && to && (
+                  <line key={`${route.from}-${route.to}`} x1={from.x} y1={from.y} x2={to.x} y2={to.y} stroke="#d6c7a1" strokeWidth={1.5} strokeDasharray="4 3" />
+                );
+              })}
+              <polyline
+                points={journey.stops
+                  .map(stop => journey.map.settlements.find(settlement => settlement.id === stop.settlement))
+                  .filter(Boolean)
+                  .map(settlement => `${settlement!.x},${settlement!.y}`)
+                  .join(' ')}
+                fill="none"
+                stroke="#c2410c"
+                strokeWidth={2.5}
+              />
+              {journey.map.settlements.map(settlement => {
+                const stop = journey.stops.find(candidate => candidate.settlement === settlement.id);
+                return (
+                  <g key={settlement.id} className={stop ? 'cursor-pointer' : ''} onClick={() => stop && jumpToStop(stop)}>
+                    <title>{`${settlement.name} (${settlement.region})`}</title>
+                    <circle cx={settlement.x} cy={settlement.y} r={stop ? 5 : 3} fill={stop ? '#c2410c' : '#a8a29e'} />
+                    <text x={settlement.x} y={settlement.y - 8} textAnchor="middle" fontSize={9} fill={stop ? '#7c2d12' : '#78716c'}>
+                      {settlement.name}
+                    </text>
+                  </g>
+                );
+              })}
+            </svg>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-4 space-y-2">
+            {journey.stops.length === 0 ? (
+              <p className="text-gray-500 text-center italic">{t('journey.empty')}</p>
+            ) : (
+              journey.stops.map((stop, index) => (
+                <button
+                  key={stop.firstEntry}
+                  onClick={() => jumpToStop(stop)}
+                  className="w-full text-left p-3 rounded-lg border bg-green-50/50 border-green-200/50 hover:bg-green-100/60 transition-colors"
+                >
+                  <div className="flex items-center justify-between gap-3">
+                    <span className="font-semibold text-green-800">
+                      {index + 1}. {stop.name}
+                      {stop.settlement === null && <span className="text-xs text-gray-500 font-normal ml-2">{t('journey.offMap')}</span>}
+                    </span>
+                    <span className="text-xs text-amber-700 flex-shrink-0">
+                      {stop.days === null ? '—' : t('journey.days', { count: Math.round(stop.days * 10) / 10 })}
+                    </span>
+                  </div>
+                  <div className="text-xs text-green-600 mt-1 flex flex-wrap gap-x-3">
+                    <span>📅 {stop.arrived.day} {stop.arrived.month} {stop.arrived.year}, {stop.arrived.time}</span>
+                    <span>📍 {stop.places.join(', ')}</span>
+                  </div>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      </div>
+    )}
+
+    {/* Timelines Dialog */}
+    {showTimelines && (
+      <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50 p-4" onClick={() => setShowTimelines(false)}>
+        <div className="bg-white/95 rounded-xl shadow-2xl border-2 border-green-200/80 w-full max-w-2xl max-h-[80vh] flex flex-col overflow-hidden" onClick={(e) => e.stopPropagation()}>
+          <div className="bg-gradient-to-r from-green-800 to-green-700 text-white p-4 flex items-center justify-between">
+            <h2 className="text-xl font-bold">🌳 {t('timelines.title')}</h2>
+            <button onClick={() => setShowTimelines(false)} className="text-green-100 hover:text-white text-lg">✕</button>
+          </div>
+
+          <div className="p-4 border-b border-green-200 flex gap-2">
+            <input
+              type="text"
+              placeholder={t('placeholders.branchName')}
+              value={branchName}
+              onChange={(e) => setBranchName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  handleFork();
+                }
+              }}
+              className="flex-1 px-3 py-2 text-sm border border-green-300 rounded-lg bg-white/80 focus:outline-none focus:ring-2 focus:ring-green-200"
+            />
+            <button
+              onClick={() => handleFork()}
+              className="bg-teal-600 hover:bg-teal-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+            >
+              🌿 {t('timelines.fork')}
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-4 space-y-2">
+            {flattenTimelines(timelines).map(({ node, depth }) => (
+              <div
+                key={node.id}
+                className={`p-3 rounded-lg border flex items-center justify-between gap-3 ${node.id === sessionId ? 'bg-amber-50 border-amber-300' : 'bg-green-50/50 border-green-200/50'}`}
+                style={{ marginLeft: `${depth * 1.5}rem` }}
+              >
+                <div className="min-w-0">
+                  <div className="font-semibold text-green-800 break-words">
+                    {depth > 0 && <span className="text-green-500 mr-1">↳</span>}
+                    {node.name}
+                    {node.id === sessionId && <span className="text-xs bg-amber-100 text-amber-800 px-2 py-0.5 rounded-full ml-2">{t('timelines.current')}</span>}
+                  </div>
+                  {node.fork && (
+                    <div className="text-xs text-green-600 mt-1 space-y-0.5">
+                      <div className="flex flex-wrap gap-x-3">
+                        <span className="text-purple-600">📍 {[node.fork.location.settlement, node.fork.location.place].filter(Boolean).join(', ')}</span>
+                        <span>📅 {node.fork.time.day} {node.fork.time.month} {node.fork.time.year}, {node.fork.time.time}</span>
+                      </div>
+                      {node.fork.parentIntention && <div>{t('timelines.parentIntention', { intention: node.fork.parentIntention })}</div>}
+                      {node.branchIntention && <div className="text-teal-700">{t('timelines.branchIntention', { intention: node.branchIntention })}</div>}
+                    </div>
+                  )}
+                  <div className="text-xs text-gray-500 mt-1">🧠 {node.memoryCount}</div>
+                </div>
+                {node.id !== sessionId && (
+                  <div className="flex gap-1 flex-shrink-0">
+                    <button
+                      onClick={() => handleSwitchBranch(node.id)}
+                      className="bg-teal-600 hover:bg-teal-700 text-white px-2 py-1 rounded text-xs transition-colors"
+                    >
+                      {t('timelines.switch')}
+                    </button>
+                    <button
+                      onClick={() => handleDeleteBranch(node.id)}
+                      className="bg-red-500 hover:bg-red-600 text-white px-2 py-1 rounded text-xs transition-colors"
+                      title={t('timelines.delete')}
+                    >
+                      🗑️
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    )}
+
     {/* Server Logs Section - Completely outside game container */}
     <div className="bg-gradient-to-br from-green-50 via-amber-50 to-yellow-100 py-6">
       <div className="mx-auto max-w-6xl px-4">